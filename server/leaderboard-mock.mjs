@@ -0,0 +1,69 @@
+// Minimal shared-leaderboard backend for local testing and LAN events.
+//
+//   node server/leaderboard-mock.mjs [--port 8787] [--file scores.json]
+//
+// GET  /scores  -> JSON array of entries
+// POST /scores  -> appends one entry (JSON body), 201 on success
+//
+// Scores are kept in memory, and also written to --file when given.
+
+import { createServer } from "node:http";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+
+const args = process.argv.slice(2);
+const arg = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : fallback;
+};
+
+const port = Number(arg("port", process.env.PORT ?? 8787));
+const file = arg("file");
+let scores = file && existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : [];
+
+const isEntry = (e) =>
+  e && typeof e.name === "string" && e.name.trim() && Number.isFinite(e.score) && typeof e.date === "string";
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url, "http://localhost");
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (pathname !== "/scores") return send(res, 404, { error: "Not found" });
+
+  if (req.method === "GET") return send(res, 200, [...scores].sort((a, b) => b.score - a.score));
+
+  if (req.method === "POST") {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      let entry;
+      try {
+        entry = JSON.parse(body);
+      } catch {
+        return send(res, 400, { error: "Invalid JSON" });
+      }
+      if (!isEntry(entry)) return send(res, 400, { error: "Expected { name, score, date, ... }" });
+      // Replayed offline submissions may arrive twice; keep one per player and finish time
+      if (!scores.some((e) => e.name === entry.name && e.date === entry.date)) {
+        scores.push(entry);
+        if (file) writeFileSync(file, JSON.stringify(scores, null, 2));
+      }
+      send(res, 201, entry);
+    });
+    return;
+  }
+
+  send(res, 405, { error: "Method not allowed" });
+});
+
+server.listen(port, () => {
+  console.log(`Leaderboard mock listening on http://localhost:${port}/scores`);
+});
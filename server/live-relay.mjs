@@ -0,0 +1,208 @@
+// WebSocket relay for facilitator-hosted live quizzes (/host and /join).
+//
+//   node server/live-relay.mjs [--port 8788]
+//
+// Built on node:http alone so it runs on a LAN laptop with no install or
+// internet connection. The relay only knows about rooms; the host page runs
+// the quiz and everything else is passed through:
+//
+//   host   -> { type: "host" }                  opens a room, answered with { type: "room", code }
+//   player -> { type: "join", code, name }      answered with { type: "joined", code, playerId } or { type: "error", reason }
+//   host   -> any other message                 forwarded to every player in the room
+//   player -> { type: "answer", ... }           forwarded to the host with `playerId` added; other types are dropped
+//
+// The host also receives { type: "players", players: [{ id, name }] } whenever
+// someone joins or leaves, and players receive { type: "closed" } if the host
+// disconnects.
+
+import { createServer } from "node:http";
+import { createHash, randomUUID } from "node:crypto";
+
+const args = process.argv.slice(2);
+const arg = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : fallback;
+};
+
+const port = Number(arg("port", process.env.PORT ?? 8788));
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+// Quiz messages are small; anything bigger is a misbehaving client
+const MAX_MESSAGE_BYTES = 64 * 1024;
+// No 0/O or 1/I so codes can be read out loud and typed on a phone
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/** code -> { host, players: Map<playerId, { name, conn }> } */
+const rooms = new Map();
+
+function newCode() {
+  let code;
+  do {
+    code = Array.from({ length: 4 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join("");
+  } while (rooms.has(code));
+  return code;
+}
+
+function frame(opcode, payload) {
+  const len = payload.length;
+  const header =
+    len < 126 ? Buffer.from([0x80 | opcode, len]) :
+    len < 65536 ? Buffer.from([0x80 | opcode, 126, len >> 8, len & 0xff]) :
+    Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(len)); return b; })()]);
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Wraps an upgraded socket: text messages in, JSON out. `head` is whatever
+ * arrived with the upgrade request. Fragmented messages are not supported.
+ */
+function connection(socket, head, onMessage, onClose) {
+  let buffer = Buffer.alloc(0);
+  let closed = false;
+  const conn = {
+    send(message) {
+      if (!closed) socket.write(frame(0x1, Buffer.from(JSON.stringify(message))));
+    },
+    /** `status` is a close code from RFC 6455, e.g. 1002 for a protocol error */
+    close(status) {
+      if (closed) return;
+      closed = true;
+      const payload = Buffer.alloc(status ? 2 : 0);
+      if (status) payload.writeUInt16BE(status);
+      socket.end(frame(0x8, payload));
+      onClose();
+    },
+  };
+
+  const receive = (chunk) => {
+    if (closed) return;
+    buffer = Buffer.concat([buffer, chunk]);
+    // Stops as soon as the connection closes, so nothing queued behind a close frame is acted on
+    while (!closed && buffer.length >= 2) {
+      const opcode = buffer[0] & 0x0f;
+      // Clients must mask every frame (RFC 6455 §5.1)
+      if ((buffer[1] & 0x80) === 0) return conn.close(1002);
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_MESSAGE_BYTES) return conn.close(1009);
+      if (buffer.length < offset + 4 + length) return;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) return conn.close();
+      if (opcode === 0x9) socket.write(frame(0xa, payload));
+      if (opcode === 0x1) {
+        try {
+          onMessage(JSON.parse(payload.toString("utf8")));
+        } catch {
+          conn.send({ type: "error", reason: "badMessage" });
+        }
+      }
+    }
+  };
+
+  socket.on("data", receive);
+  socket.on("close", () => {
+    if (closed) return;
+    closed = true;
+    onClose();
+  });
+  socket.on("error", () => socket.destroy());
+  // Next tick, so the caller has its `conn` before any message arrives
+  if (head.length) process.nextTick(receive, head);
+  return conn;
+}
+
+function playerList(room) {
+  return [...room.players].map(([id, p]) => ({ id, name: p.name }));
+}
+
+function attach(socket, head) {
+  // Set once the client says who it is
+  let role = null;
+  let code = null;
+  let playerId = null;
+
+  const conn = connection(
+    socket,
+    head,
+    (msg) => {
+      if (!role && msg.type === "host") {
+        role = "host";
+        code = newCode();
+        rooms.set(code, { host: conn, players: new Map() });
+        return conn.send({ type: "room", code });
+      }
+      if (!role && msg.type === "join") {
+        const room = rooms.get(String(msg.code ?? "").toUpperCase());
+        const name = String(msg.name ?? "").trim().slice(0, 40);
+        if (!room) return conn.send({ type: "error", reason: "noRoom" });
+        if (!name) return conn.send({ type: "error", reason: "noName" });
+        if ([...room.players.values()].some(p => p.name.toLowerCase() === name.toLowerCase())) {
+          return conn.send({ type: "error", reason: "nameTaken" });
+        }
+        role = "player";
+        code = String(msg.code).toUpperCase();
+        playerId = randomUUID();
+        room.players.set(playerId, { name, conn });
+        conn.send({ type: "joined", code, playerId, name });
+        return room.host.send({ type: "players", players: playerList(room) });
+      }
+
+      const room = rooms.get(code);
+      if (!room) return conn.send({ type: "error", reason: "noRoom" });
+      if (role === "host") {
+        for (const p of room.players.values()) p.conn.send(msg);
+      } else if (role === "player" && msg.type === "answer") {
+        // Anything else could pass for a relay notice ("players", "room") on the host's side
+        room.host.send({ ...msg, playerId });
+      }
+    },
+    () => {
+      const room = rooms.get(code);
+      if (!room) return;
+      if (role === "host") {
+        for (const p of room.players.values()) p.conn.send({ type: "closed" });
+        rooms.delete(code);
+      } else if (role === "player") {
+        room.players.delete(playerId);
+        room.host.send({ type: "players", players: playerList(room) });
+      }
+    }
+  );
+}
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("This is a WebSocket relay; open /host or /join in the quiz app.\n");
+});
+
+server.on("upgrade", (req, socket, head) => {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+    "Upgrade: websocket\r\n" +
+    "Connection: Upgrade\r\n" +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  attach(socket, head);
+});
+
+server.listen(port, () => {
+  console.log(`Live quiz relay listening on ws://localhost:${port}`);
+});
@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { useRegisterSW } from "virtual:pwa-register/react";
+import { toast } from "@/components/ui/sonner";
+import { useI18n } from "@/i18n/context";
+
+/** Mounted once near the root: tells players when the app works offline and when a new version is ready. */
+export function AppUpdatePrompt() {
+  const { t } = useI18n();
+  const {
+    offlineReady: [offlineReady, setOfflineReady],
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker,
+  } = useRegisterSW();
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    toast(t("pwa.offlineReady"), { description: t("pwa.offlineReadyHint") });
+    setOfflineReady(false);
+  }, [offlineReady, setOfflineReady, t]);
+
+  useEffect(() => {
+    if (!needRefresh) return;
+    // Stays up until answered; reloading mid-game would lose the round
+    toast(t("pwa.updateReady"), {
+      description: t("pwa.updateReadyHint"),
+      duration: Infinity,
+      action: { label: t("pwa.reload"), onClick: () => updateServiceWorker(true) },
+      onDismiss: () => setNeedRefresh(false),
+    });
+  }, [needRefresh, setNeedRefresh, updateServiceWorker, t]);
+
+  return null;
+}
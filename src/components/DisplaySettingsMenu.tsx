@@ -0,0 +1,42 @@
+import { Accessibility } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useDisplaySettings } from "@/hooks/use-display-settings";
+import { useI18n } from "@/i18n/context";
+
+export function DisplaySettingsMenu() {
+  const { t } = useI18n();
+  const { settings, update } = useDisplaySettings();
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" aria-label={t("display.label")}>
+          <Accessibility className="h-4 w-4" aria-hidden />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t("display.label")}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={settings.highContrast}
+          onCheckedChange={(v) => update({ highContrast: v })}
+        >
+          {t("display.highContrast")}
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuCheckboxItem
+          checked={settings.reducedMotion}
+          onCheckedChange={(v) => update({ reducedMotion: v })}
+        >
+          {t("display.reducedMotion")}
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,19 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LOCALES, type Locale } from "@/i18n";
+import { useI18n } from "@/i18n/context";
+
+export function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <Select value={locale} onValueChange={(v) => setLocale(v as Locale)}>
+      <SelectTrigger className="w-36" aria-label={t("language.label")}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LOCALES.map(l => (
+          <SelectItem key={l.code} value={l.code} lang={l.code}>{l.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
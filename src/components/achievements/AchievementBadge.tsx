@@ -0,0 +1,65 @@
+import type { CSSProperties } from "react";
+import {
+  Award,
+  CalendarCheck,
+  Flame,
+  GraduationCap,
+  HeartPulse,
+  Mountain,
+  Pill,
+  Repeat,
+  Sparkles,
+  Star,
+  TestTube,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AchievementId } from "@/lib/achievements";
+import { useI18n } from "@/i18n/context";
+
+const ICONS: Record<AchievementId, LucideIcon> = {
+  firstGame: Sparkles,
+  perfectRound: Star,
+  perfectHard: Award,
+  streakFive: Flame,
+  speedster: Zap,
+  climber: Mountain,
+  allSelfTesting: TestTube,
+  allPrep: Pill,
+  allReproductive: HeartPulse,
+  dayStreakFive: CalendarCheck,
+  tenGames: Repeat,
+  tenMastered: GraduationCap,
+};
+
+interface AchievementBadgeProps {
+  id: AchievementId;
+  locked?: boolean;
+  /** Shown under the description, e.g. when it was unlocked */
+  note?: string;
+  className?: string;
+  style?: CSSProperties;
+}
+
+export function AchievementBadge({ id, locked = false, note, className, style }: AchievementBadgeProps) {
+  const { t } = useI18n();
+  const Icon = ICONS[id];
+  return (
+    <div className={cn("flex items-start gap-3 rounded-lg border p-3", locked && "opacity-50 grayscale", className)} style={style}>
+      <span
+        className={cn(
+          "flex h-10 w-10 shrink-0 items-center justify-center rounded-full",
+          locked ? "bg-muted text-muted-foreground" : "bg-primary text-primary-foreground"
+        )}
+      >
+        <Icon className="h-5 w-5" aria-hidden />
+      </span>
+      <div className="space-y-0.5">
+        <p className="font-medium">{t(`achievements.${id}.title`)}</p>
+        <p className="text-sm text-muted-foreground">{t(`achievements.${id}.description`)}</p>
+        {note && <p className="text-xs text-muted-foreground">{note}</p>}
+      </div>
+    </div>
+  );
+}
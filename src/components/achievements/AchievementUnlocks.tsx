@@ -0,0 +1,19 @@
+import { AchievementBadge } from "@/components/achievements/AchievementBadge";
+import type { AchievementId } from "@/lib/achievements";
+import { useI18n } from "@/i18n/context";
+
+/** Achievements unlocked by the game just finished, popping in one after another. */
+export function AchievementUnlocks({ ids }: { ids: AchievementId[] }) {
+  const { t } = useI18n();
+  if (!ids.length) return null;
+  return (
+    <div className="rounded-lg border p-4">
+      <h2 className="mb-3 font-semibold">{t("achievements.unlocked", { count: ids.length })}</h2>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {ids.map((id, i) => (
+          <AchievementBadge key={id} id={id} className="animate-badge-pop" style={{ animationDelay: `${i * 150}ms` }} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { AchievementBadge } from "@/components/achievements/AchievementBadge";
+import { ACHIEVEMENTS } from "@/lib/achievements";
+import type { PlayerProfile } from "@/lib/profiles";
+import { useI18n } from "@/i18n/context";
+
+/** Every achievement, with the ones this player hasn't earned yet greyed out. */
+export function BadgeGallery({ profile }: { profile: PlayerProfile }) {
+  const { t, locale } = useI18n();
+  return (
+    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+      {ACHIEVEMENTS.map(({ id }) => {
+        const unlockedAt = profile.achievements[id];
+        return (
+          <AchievementBadge
+            key={id}
+            id={id}
+            locked={!unlockedAt}
+            note={unlockedAt ? t("achievements.unlockedOn", { date: new Date(unlockedAt).toLocaleDateString(locale) }) : undefined}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { OptionImage } from "@/components/game/QuestionIllustration";
+import type { MultiSelectQuestion, MythFactQuestion, OrderingQuestion, Question } from "@/data/questions";
+import { localeInfo } from "@/i18n";
+import { useI18n } from "@/i18n/context";
+import { correctResponse, scrambledSteps, type Response } from "@/lib/grading";
+import { cn } from "@/lib/utils";
+
+interface AnswerInputProps<Q extends Question = Question> {
+  question: Q;
+  /** null until answered; [] when the clock ran out */
+  response: Response | null;
+  onAnswer: (response: Response) => void;
+}
+
+// How far a myth-or-fact card has to be dragged to count as a swipe
+const SWIPE_PX = 80;
+
+const ROW = "flex items-center gap-3 rounded-md border px-4 py-2";
+const RIGHT_ROW = "border-secondary bg-secondary text-secondary-foreground";
+const WRONG_ROW = "border-destructive bg-destructive text-destructive-foreground";
+
+/** The answering controls for a question, whatever its type. Key it by question so drafts don't carry over. */
+export function AnswerInput({ question, response, onAnswer }: AnswerInputProps) {
+  const { t } = useI18n();
+  switch (question.type) {
+    case "trueFalse":
+      return (
+        <OptionButtons
+          options={[t("questionTypes.true"), t("questionTypes.false")]}
+          correctIndex={correctResponse(question)[0]}
+          response={response}
+          onAnswer={onAnswer}
+        />
+      );
+    case "multiSelect":
+      return <MultiSelectInput question={question} response={response} onAnswer={onAnswer} />;
+    case "ordering":
+      return <OrderingInput question={question} response={response} onAnswer={onAnswer} />;
+    case "mythFact":
+      return <MythFactInput question={question} response={response} onAnswer={onAnswer} />;
+    default:
+      return (
+        <OptionButtons
+          options={question.options}
+          images={question.optionImages}
+          correctIndex={question.answerIndex}
+          response={response}
+          onAnswer={onAnswer}
+        />
+      );
+  }
+}
+
+function Verdict({ right }: { right: boolean }) {
+  const { t } = useI18n();
+  // Colour alone doesn't say which answer was right
+  return right ? (
+    <><Check className="h-4 w-4 shrink-0" aria-hidden /><span className="sr-only">{t("review.correct")}</span></>
+  ) : (
+    <><X className="h-4 w-4 shrink-0" aria-hidden /><span className="sr-only">{t("review.wrong")}</span></>
+  );
+}
+
+function OptionButtons({ options, images, correctIndex, response, onAnswer }: { options: string[]; images?: string[]; correctIndex: number } & Omit<AnswerInputProps, "question">) {
+  const answered = response !== null;
+  return (
+    <div className="grid gap-3">
+      {options.map((opt, i) => {
+        const isCorrect = answered && i === correctIndex;
+        const isWrong = answered && response[0] === i && i !== correctIndex;
+        return (
+          <Button
+            key={i}
+            variant={isCorrect ? "secondary" : isWrong ? "destructive" : "outline"}
+            className="h-auto justify-start whitespace-normal py-2 text-start"
+            onClick={() => onAnswer([i])}
+            disabled={answered}
+            aria-keyshortcuts={i < 9 ? String(i + 1) : undefined}
+          >
+            <kbd className="me-1 text-xs text-muted-foreground" aria-hidden>{i + 1}</kbd>
+            <OptionImage src={images?.[i]} />
+            <span className="flex-1">{opt}</span>
+            {(isCorrect || isWrong) && <Verdict right={isCorrect} />}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
+
+function MultiSelectInput({ question, response, onAnswer }: AnswerInputProps<MultiSelectQuestion>) {
+  const { t } = useI18n();
+  const [picked, setPicked] = useState<number[]>([]);
+  const answered = response !== null;
+  const shown = response ?? picked;
+  const toggle = (i: number) => setPicked(p => (p.includes(i) ? p.filter(n => n !== i) : [...p, i]));
+
+  return (
+    <div className="grid gap-3">
+      {question.options.map((opt, i) => {
+        const isPicked = shown.includes(i);
+        const isAnswer = question.answerIndexes.includes(i);
+        return (
+          <label
+            key={i}
+            className={cn(ROW, "cursor-pointer", answered && "cursor-default", answered && isAnswer && RIGHT_ROW, answered && isPicked && !isAnswer && WRONG_ROW)}
+          >
+            <Checkbox checked={isPicked} disabled={answered} onCheckedChange={() => toggle(i)} />
+            <OptionImage src={question.optionImages?.[i]} />
+            <span className="flex-1">{opt}</span>
+            {answered && (isAnswer || isPicked) && <Verdict right={isAnswer} />}
+          </label>
+        );
+      })}
+      {!answered && (
+        <Button variant="secondary" disabled={!picked.length} onClick={() => onAnswer([...picked].sort((a, b) => a - b))}>
+          {t("questionTypes.check")}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function OrderingInput({ question, response, onAnswer }: AnswerInputProps<OrderingQuestion>) {
+  const { t } = useI18n();
+  const [order, setOrder] = useState(() => scrambledSteps(question));
+  const answered = response !== null;
+  // A timed-out answer shows the steps as they were left
+  const shown = response?.length ? response : order;
+
+  const move = (position: number, by: number) => {
+    const next = [...order];
+    [next[position], next[position + by]] = [next[position + by], next[position]];
+    setOrder(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <ol className="grid gap-2">
+        {shown.map((step, position) => (
+          <li key={step} className={cn(ROW, answered && (step === position ? RIGHT_ROW : WRONG_ROW))}>
+            <span className="w-5 text-sm tabular-nums">{position + 1}.</span>
+            <span className="flex-1">{question.steps[step]}</span>
+            {answered ? (
+              <Verdict right={step === position} />
+            ) : (
+              <span className="flex gap-1">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  disabled={position === 0}
+                  onClick={() => move(position, -1)}
+                  aria-label={t("questionTypes.moveUp", { step: question.steps[step] })}
+                >
+                  <ArrowUp className="h-4 w-4" aria-hidden />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  disabled={position === shown.length - 1}
+                  onClick={() => move(position, 1)}
+                  aria-label={t("questionTypes.moveDown", { step: question.steps[step] })}
+                >
+                  <ArrowDown className="h-4 w-4" aria-hidden />
+                </Button>
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+      {!answered && (
+        <Button variant="secondary" className="w-full" onClick={() => onAnswer(order)}>{t("questionTypes.check")}</Button>
+      )}
+      {answered && shown.some((step, position) => step !== position) && (
+        <div className="text-sm">
+          <p className="text-muted-foreground">{t("questionTypes.rightOrder")}</p>
+          <ol className="list-decimal ps-5">
+            {question.steps.map((step, i) => <li key={i}>{step}</li>)}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MythFactInput({ question, response, onAnswer }: AnswerInputProps<MythFactQuestion>) {
+  const { t, locale } = useI18n();
+  const [marks, setMarks] = useState<number[]>([]);
+  const [dragX, setDragX] = useState(0);
+  const [dragStart, setDragStart] = useState<number | null>(null);
+  // Swiping towards the end of the line means "fact", whichever way the script runs
+  const forward = localeInfo(locale).dir === "rtl" ? -1 : 1;
+
+  if (response !== null) {
+    return (
+      <ul className="grid gap-2">
+        {question.statements.map((s, i) => {
+          const right = response[i] === (s.fact ? 1 : 0);
+          return (
+            <li key={i} className={cn(ROW, right ? RIGHT_ROW : WRONG_ROW)}>
+              <span className="flex-1">{s.text}</span>
+              <span className="text-sm font-medium">{t(s.fact ? "questionTypes.fact" : "questionTypes.myth")}</span>
+              <Verdict right={right} />
+            </li>
+          );
+        })}
+      </ul>
+    );
+  }
+
+  const index = marks.length;
+  const statement = question.statements[index];
+  const sort = (fact: boolean) => {
+    const next = [...marks, fact ? 1 : 0];
+    setMarks(next);
+    setDragX(0);
+    if (next.length === question.statements.length) onAnswer(next);
+  };
+  const release = () => {
+    const distance = dragX * forward;
+    setDragStart(null);
+    if (distance > SWIPE_PX) sort(true);
+    else if (distance < -SWIPE_PX) sort(false);
+    else setDragX(0);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-center text-sm text-muted-foreground">
+        {t("questionTypes.statementOf", { number: index + 1, total: question.statements.length })}
+      </p>
+      <div
+        role="group"
+        tabIndex={0}
+        aria-label={statement.text}
+        aria-describedby="myth-fact-keys"
+        className="touch-pan-y select-none rounded-lg border bg-card p-6 text-center text-lg shadow-sm transition-transform focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        style={{ transform: `translateX(${dragX}px) rotate(${dragX / 20}deg)`, transitionDuration: dragStart === null ? undefined : "0ms" }}
+        onPointerDown={(e) => {
+          setDragStart(e.clientX);
+          e.currentTarget.setPointerCapture(e.pointerId);
+        }}
+        onPointerMove={(e) => dragStart !== null && setDragX(e.clientX - dragStart)}
+        onPointerUp={release}
+        onPointerCancel={() => {
+          setDragStart(null);
+          setDragX(0);
+        }}
+        onKeyDown={(e) => {
+          // Enter would otherwise move on to the next question before every statement is sorted
+          if (e.key === "Enter") e.preventDefault();
+          if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+          e.preventDefault();
+          sort((e.key === "ArrowRight" ? 1 : -1) * forward > 0);
+        }}
+      >
+        {statement.text}
+      </div>
+      <p id="myth-fact-keys" className="sr-only">{t("questionTypes.swipeKeys")}</p>
+      <div className="flex justify-between gap-3">
+        <Button variant="outline" className="flex-1" onClick={() => sort(false)}>{t("questionTypes.myth")}</Button>
+        <Button variant="outline" className="flex-1" onClick={() => sort(true)}>{t("questionTypes.fact")}</Button>
+      </div>
+      <p className="text-center text-xs text-muted-foreground">{t("questionTypes.swipeHint")}</p>
+    </div>
+  );
+}
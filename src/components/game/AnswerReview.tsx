@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Check, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { useAnswerText } from "@/hooks/use-answer-text";
+import { useI18n } from "@/i18n/context";
+import type { MessageKey } from "@/i18n";
+import { isMissed, type AnswerOutcome, type AnswerRecord } from "@/lib/answers";
+import { correctResponse } from "@/lib/grading";
+
+const OUTCOME_LABELS: Record<AnswerOutcome, MessageKey> = {
+  correct: "review.correct",
+  wrong: "review.wrong",
+  timeout: "review.timeout",
+  skipped: "review.skipped",
+};
+
+/** Every question of a finished game with the player's choice, the right answer and the explanation. */
+export function AnswerReview({ answers }: { answers: AnswerRecord[] }) {
+  const { t, localize } = useI18n();
+  const { describe } = useAnswerText();
+  const [missedOnly, setMissedOnly] = useState(false);
+  const missedCount = answers.filter(isMissed).length;
+  // Keep each question's number from the game even when the list is filtered
+  const visible = answers.map((record, number) => ({ record, number })).filter(({ record }) => !missedOnly || isMissed(record));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{t("review.title")}</CardTitle>
+            <CardDescription>{t("review.summary", { missed: missedCount, total: answers.length })}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="review-missed-only" checked={missedOnly} onCheckedChange={setMissedOnly} />
+            <label htmlFor="review-missed-only" className="text-sm">{t("review.missedOnly")}</label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 && <p className="text-sm text-muted-foreground">{t("review.noneMissed")}</p>}
+        <ol className="space-y-4">
+          {visible.map(({ record, number }) => {
+            const question = localize(record.question);
+            const missed = isMissed(record);
+            return (
+              <li key={number} className="rounded-lg border p-4">
+                <div className="flex items-start gap-3">
+                  {missed ? (
+                    <X className="mt-0.5 h-5 w-5 shrink-0 text-destructive" aria-hidden />
+                  ) : (
+                    <Check className="mt-0.5 h-5 w-5 shrink-0 text-primary" aria-hidden />
+                  )}
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-start justify-between gap-3">
+                      <p className="font-medium">{number + 1}. {question.text}</p>
+                      <span className="shrink-0 text-sm text-muted-foreground">
+                        {t(OUTCOME_LABELS[record.outcome])} • {t("result.points", { score: record.points })}
+                      </span>
+                    </div>
+                    {!!record.response?.length && missed && (
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">{t("review.yourAnswer")}</span> {describe(question, record.response)}
+                      </p>
+                    )}
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">{t("review.correctAnswer")}</span> {describe(question, correctResponse(question))}
+                    </p>
+                    {question.explanation && <p className="text-sm text-muted-foreground">{question.explanation}</p>}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
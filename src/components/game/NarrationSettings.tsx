@@ -0,0 +1,52 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { useNarration } from "@/hooks/use-narration";
+import { useI18n } from "@/i18n/context";
+import { NARRATION_RATES } from "@/lib/narration";
+
+const DEFAULT_VOICE = "__default";
+
+/** Read-aloud switch, plus voice and speed for the current language once it's on. */
+export function NarrationSettings({ narration }: { narration: ReturnType<typeof useNarration> }) {
+  const { t } = useI18n();
+  if (!narration.supported) return null;
+  const { settings, update, voices, choice, choose } = narration;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <label htmlFor="narration" className="text-sm">{t("narration.label")}</label>
+          <p className="text-xs text-muted-foreground">{t("narration.hint")}</p>
+        </div>
+        <Switch id="narration" checked={settings.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+      {settings.enabled && (
+        <div className="grid grid-cols-2 gap-3">
+          <Select value={choice.voice ?? DEFAULT_VOICE} onValueChange={(v) => choose({ voice: v === DEFAULT_VOICE ? null : v })}>
+            <SelectTrigger aria-label={t("narration.voice")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_VOICE}>{t("narration.defaultVoice")}</SelectItem>
+              {voices.map(v => (
+                <SelectItem key={v.voiceURI} value={v.voiceURI}>{v.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(choice.rate)} onValueChange={(v) => choose({ rate: Number(v) })}>
+            <SelectTrigger aria-label={t("narration.rate")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NARRATION_RATES.map(r => (
+                <SelectItem key={r} value={String(r)}>{t("narration.rateValue", { rate: r })}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!voices.length && <p className="col-span-2 text-xs text-muted-foreground">{t("narration.noVoice")}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
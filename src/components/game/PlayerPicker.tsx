@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useI18n } from "@/i18n/context";
+import { playerKey } from "@/lib/players";
+import type { PlayerProfile } from "@/lib/profiles";
+
+const NEW_PLAYER = "__new";
+
+interface PlayerPickerProps {
+  profiles: PlayerProfile[];
+  name: string;
+  onChange: (name: string) => void;
+}
+
+/** Picks a saved profile, or lets a new player type their name. */
+export function PlayerPicker({ profiles, name, onChange }: PlayerPickerProps) {
+  const { t } = useI18n();
+  const match = profiles.find(p => p.id === playerKey(name));
+  const [typing, setTyping] = useState(!match);
+
+  const input = (
+    <Input
+      placeholder={t("setup.playerNamePlaceholder")}
+      aria-label={t("setup.playerName")}
+      value={name}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+  if (!profiles.length) return input;
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={typing || !match ? NEW_PLAYER : match.id}
+        onValueChange={(v) => {
+          const profile = profiles.find(p => p.id === v);
+          setTyping(!profile);
+          onChange(profile?.name ?? "");
+        }}
+      >
+        <SelectTrigger aria-label={t("setup.playerName")}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(p => (
+            <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_PLAYER}>{t("setup.newPlayer")}</SelectItem>
+        </SelectContent>
+      </Select>
+      {(typing || !match) && input}
+    </div>
+  );
+}
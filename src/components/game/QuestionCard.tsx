@@ -0,0 +1,106 @@
+import { useEffect, useRef } from "react";
+import { Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { AnswerInput } from "@/components/game/AnswerInput";
+import { QuestionIllustration } from "@/components/game/QuestionIllustration";
+import type { Question, Topic } from "@/data/questions";
+import { useAnswerText } from "@/hooks/use-answer-text";
+import { useI18n } from "@/i18n/context";
+import { correctResponse, gradeResponse, keyOptionCount, type Response } from "@/lib/grading";
+
+interface QuestionCardProps {
+  question: Question;
+  index: number;
+  total: number;
+  topic: Topic;
+  /** null until answered; [] when the clock ran out */
+  response: Response | null;
+  onAnswer: (response: Response) => void;
+  score: number;
+  onNext: () => void;
+  /** Replaces Next/Finish, for games that go on after this card's last question */
+  nextLabel?: string;
+  /** Shown in timed mode */
+  countdown?: { remainingMs: number; limitMs: number };
+  streak?: number;
+  bonusRound?: boolean;
+  /** Moves focus to each new question and to Next once answered; off in the editor preview */
+  manageFocus?: boolean;
+  /** Reads the question (or, once answered, the feedback) aloud again */
+  onReplay?: () => void;
+}
+
+/** The play card shown for each question; also used as the editor preview. */
+export function QuestionCard({ question, index, total, topic, response, onAnswer, score, onNext, nextLabel, countdown, streak = 0, bonusRound = false, manageFocus = false, onReplay }: QuestionCardProps) {
+  const { t } = useI18n();
+  const progressValue = total ? Math.round((index / total) * 100) : 0;
+  const questionRef = useRef<HTMLParagraphElement>(null);
+  const nextRef = useRef<HTMLButtonElement>(null);
+  const text = useAnswerText();
+  const answered = response !== null;
+  const keyCount = keyOptionCount(question);
+
+  useEffect(() => {
+    if (manageFocus) questionRef.current?.focus();
+  }, [manageFocus, index]);
+  useEffect(() => {
+    if (manageFocus && answered) nextRef.current?.focus();
+  }, [manageFocus, answered]);
+
+  const announcement = answered
+    ? [
+        text.verdict(question, response),
+        gradeResponse(question, response).correct ? "" : t("a11y.correctAnswerWas", { answer: text.describe(question, correctResponse(question)) }),
+        question.explanation,
+      ].filter(Boolean).join(" ")
+    : "";
+
+  return (
+    <Card className="hover-scale">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl">{t("play.questionOf", { number: index + 1, total })}</CardTitle>
+          <span className="text-sm text-muted-foreground">{t(`topic.${topic}`)} • {t(`difficulty.${question.difficulty}`).toUpperCase()}</span>
+        </div>
+        <div className="pt-2">
+          <Progress value={progressValue} />
+        </div>
+        {countdown && (
+          <div className="flex items-center gap-3 pt-1">
+            <Progress className="h-2" value={(countdown.remainingMs / countdown.limitMs) * 100} />
+            <span className="w-16 shrink-0 text-end text-sm tabular-nums text-muted-foreground">
+              {t("play.secondsLeft", { seconds: Math.ceil(countdown.remainingMs / 1000) })}
+            </span>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {bonusRound && <Badge>{t("play.bonusRound")}</Badge>}
+        <div className="flex items-start justify-between gap-2">
+          <p ref={questionRef} tabIndex={-1} className="text-lg font-medium focus:outline-none">{question.text}</p>
+          {onReplay && (
+            <Button variant="ghost" size="icon" className="shrink-0" onClick={onReplay} aria-label={t("narration.replay")}>
+              <Volume2 className="h-5 w-5" aria-hidden />
+            </Button>
+          )}
+        </div>
+        {question.image && <QuestionIllustration key={question.image.src} image={question.image} />}
+        {text.prompt(question) && <p className="text-sm text-muted-foreground">{text.prompt(question)}</p>}
+        {keyCount > 0 && <p className="sr-only">{t("a11y.keysHint", { count: keyCount })}</p>}
+        <AnswerInput key={question.id} question={question} response={response} onAnswer={onAnswer} />
+        <p className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</p>
+
+        <div className="flex items-center justify-between pt-2">
+          <span className="text-sm text-muted-foreground">
+            {t("play.score", { score })}
+            {streak > 1 && <> • {t("play.streak", { count: streak })}</>}
+          </span>
+          <Button ref={nextRef} onClick={onNext} aria-keyshortcuts="Enter">{nextLabel ?? (index + 1 < total ? t("play.next") : t("play.finish"))}</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { ImageOff, ZoomIn } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import type { QuestionImage } from "@/data/questions";
+import { useI18n } from "@/i18n/context";
+
+/** A question's picture; tapping it opens a full-size view. */
+export function QuestionIllustration({ image }: { image: QuestionImage }) {
+  const { t } = useI18n();
+  const [failed, setFailed] = useState(false);
+
+  // Offline with an image that was never cached, the description still gets the point across
+  if (failed) {
+    return (
+      <div className="flex items-center gap-3 rounded-md border border-dashed p-4 text-sm text-muted-foreground">
+        <ImageOff className="h-5 w-5 shrink-0" aria-hidden />
+        <span>{t("media.unavailable", { alt: image.alt })}</span>
+      </div>
+    );
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className="group relative block w-full overflow-hidden rounded-md border bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          aria-label={t("media.zoom", { alt: image.alt })}
+        >
+          <img
+            src={image.src}
+            alt={image.alt}
+            loading="lazy"
+            decoding="async"
+            className="mx-auto max-h-64 w-full object-contain"
+            onError={() => setFailed(true)}
+          />
+          <span className="absolute bottom-2 end-2 rounded-full bg-background/80 p-1.5 opacity-80 group-hover:opacity-100">
+            <ZoomIn className="h-4 w-4" aria-hidden />
+          </span>
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogTitle className="sr-only">{t("media.zoomTitle")}</DialogTitle>
+        <DialogDescription className="sr-only">{image.alt}</DialogDescription>
+        <img src={image.src} alt={image.alt} className="max-h-[80vh] w-full object-contain" />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** A picture on an answer option. Decorative: the option text next to it is what gets read out. */
+export function OptionImage({ src }: { src?: string }) {
+  return src ? <img src={src} alt="" loading="lazy" decoding="async" className="h-16 w-16 shrink-0 rounded object-cover" /> : null;
+}
@@ -0,0 +1,49 @@
+import { useMemo } from "react";
+import { useI18n } from "@/i18n/context";
+import { useLeaderboard } from "@/hooks/use-leaderboard";
+import { dailyLeaderboard, formatDuration, searchLeaderboard, type ScoreEntry } from "@/lib/leaderboard";
+
+const NO_ENTRIES: ScoreEntry[] = [];
+
+interface DailyBoardProps {
+  /** yyyy-MM-dd */
+  day: string;
+  highlightName?: string;
+  query?: string;
+  limit?: number;
+}
+
+/** Standings for one day's daily challenge. */
+export function DailyBoard({ day, highlightName, query = "", limit }: DailyBoardProps) {
+  const { t } = useI18n();
+  const { data: all = NO_ENTRIES, isLoading } = useLeaderboard();
+  const ranked = useMemo(() => dailyLeaderboard(all, day), [all, day]);
+  const list = useMemo(() => searchLeaderboard(ranked, query).slice(0, limit), [ranked, query, limit]);
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      {list.length === 0 && (
+        <p className="px-4 py-3 text-sm text-muted-foreground">{isLoading ? t("leaderboard.loading") : t("daily.empty")}</p>
+      )}
+      <ol>
+        {list.map(e => (
+          <li
+            key={e.name + e.date}
+            className={`flex items-center justify-between px-4 py-3 ${e.name === highlightName ? "bg-accent" : ""}`}
+          >
+            <div className="flex items-center gap-3">
+              <span className="text-sm w-6 text-center">{ranked.indexOf(e) + 1}</span>
+              <span className="font-medium">{e.name}</span>
+              {e.team && <span className="text-xs font-medium">{e.team}</span>}
+            </div>
+            <div className="flex items-center gap-3 text-sm text-muted-foreground">
+              {e.accuracy !== null && <span>{t("leaderboard.accuracy", { percent: Math.round(e.accuracy * 100) })}</span>}
+              {e.durationMs !== null && <span className="tabular-nums">{formatDuration(e.durationMs)}</span>}
+              <span>{t("result.points", { score: e.score })}</span>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
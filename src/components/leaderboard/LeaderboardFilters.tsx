@@ -0,0 +1,43 @@
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CATEGORIES } from "@/data/questions";
+import { useI18n } from "@/i18n/context";
+import { BOARD_DIFFICULTIES, type LeaderboardFilter, type TimeWindow } from "@/lib/leaderboard";
+
+interface LeaderboardFiltersProps {
+  filter: LeaderboardFilter;
+  onChange: (filter: LeaderboardFilter) => void;
+}
+
+export function LeaderboardFilters({ filter, onChange }: LeaderboardFiltersProps) {
+  const { t } = useI18n();
+  const update = (patch: Partial<LeaderboardFilter>) => onChange({ ...filter, ...patch });
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Tabs value={filter.difficulty} onValueChange={(v) => update({ difficulty: v as LeaderboardFilter["difficulty"] })}>
+        <TabsList className="flex-wrap h-auto">
+          <TabsTrigger value="any">{t("leaderboard.anyDifficulty")}</TabsTrigger>
+          {BOARD_DIFFICULTIES.map(d => (
+            <TabsTrigger key={d} value={d}>{t(`difficulty.${d}`)}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+      <Tabs value={filter.topic} onValueChange={(v) => update({ topic: v as LeaderboardFilter["topic"] })}>
+        <TabsList className="flex-wrap h-auto">
+          <TabsTrigger value="any">{t("leaderboard.anyTopic")}</TabsTrigger>
+          <TabsTrigger value="all">{t("topic.all")}</TabsTrigger>
+          {CATEGORIES.map(c => (
+            <TabsTrigger key={c} value={c}>{t(`topic.${c}`)}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+      <Tabs value={filter.window} onValueChange={(v) => update({ window: v as TimeWindow })}>
+        <TabsList>
+          <TabsTrigger value="today">{t("leaderboard.today")}</TabsTrigger>
+          <TabsTrigger value="week">{t("leaderboard.week")}</TabsTrigger>
+          <TabsTrigger value="all">{t("leaderboard.allTime")}</TabsTrigger>
+        </TabsList>
+      </Tabs>
+    </div>
+  );
+}
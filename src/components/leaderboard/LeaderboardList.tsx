@@ -0,0 +1,56 @@
+import { useMemo, useState } from "react";
+import { useI18n } from "@/i18n/context";
+import { LeaderboardFilters } from "@/components/leaderboard/LeaderboardFilters";
+import { useLeaderboard } from "@/hooks/use-leaderboard";
+import { DEFAULT_FILTER, filterLeaderboard, formatDuration, type LeaderboardFilter, type ScoreEntry } from "@/lib/leaderboard";
+
+const NO_ENTRIES: ScoreEntry[] = [];
+
+interface LeaderboardListProps {
+  highlightName?: string;
+  initialFilter?: Partial<LeaderboardFilter>;
+  limit?: number;
+}
+
+export function LeaderboardList({ highlightName, initialFilter, limit = 10 }: LeaderboardListProps) {
+  const { t } = useI18n();
+  const { data: all = NO_ENTRIES } = useLeaderboard();
+  const [filter, setFilter] = useState<LeaderboardFilter>({ ...DEFAULT_FILTER, ...initialFilter });
+  const list = useMemo(() => filterLeaderboard(all, filter), [all, filter]);
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-xl font-semibold mb-3">{t("leaderboard.title")}</h2>
+      <div className="mb-3">
+        <LeaderboardFilters filter={filter} onChange={setFilter} />
+      </div>
+      <div className="rounded-lg border overflow-hidden">
+        {list.length === 0 && <p className="px-4 py-3 text-sm text-muted-foreground">{t("leaderboard.empty")}</p>}
+        <ul>
+          {list.slice(0, limit).map((e, idx) => (
+            <li
+              key={e.name + e.date}
+              className={`flex items-center justify-between px-4 py-3 ${e.name === highlightName ? "bg-accent" : ""}`}
+              style={{ transition: "transform 300ms, background 300ms" }}
+            >
+              <div className="flex items-center gap-3">
+                <span className="text-sm w-6 text-center">{idx + 1}</span>
+                <span className="font-medium">{e.name}</span>
+                {e.team && <span className="text-xs font-medium">{e.team}</span>}
+                <span className="text-xs text-muted-foreground">
+                  {t(`topic.${e.topic}`)}
+                  {e.difficulty && <> • {t(`difficulty.${e.difficulty}`)}</>}
+                </span>
+              </div>
+              <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                {e.accuracy !== null && <span>{t("leaderboard.accuracy", { percent: Math.round(e.accuracy * 100) })}</span>}
+                {e.durationMs !== null && <span className="tabular-nums">{formatDuration(e.durationMs)}</span>}
+                <span>{t("result.points", { score: e.score })}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import { useLeaderboardSync } from "@/hooks/use-leaderboard";
+
+/** Mounted once near the root so offline scores are sent from any page. */
+export function LeaderboardSync() {
+  useLeaderboardSync();
+  return null;
+}
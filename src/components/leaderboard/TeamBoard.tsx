@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useI18n } from "@/i18n/context";
+import { searchTeams, summarizeTeams, type ScoreEntry, type TeamSortKey } from "@/lib/leaderboard";
+
+interface TeamBoardProps {
+  /** Already filtered; entries without a team are ignored */
+  entries: ScoreEntry[];
+  query: string;
+  isLoading?: boolean;
+  highlightTeam?: string | null;
+}
+
+/** Teams ranked by the scores their players have posted, total or per game. */
+export function TeamBoard({ entries, query, isLoading, highlightTeam }: TeamBoardProps) {
+  const { t } = useI18n();
+  const [sortBy, setSortBy] = useState<TeamSortKey>("total");
+  const ranked = summarizeTeams(entries, sortBy);
+  const rows = searchTeams(ranked, query);
+  const sortMark = (key: TeamSortKey) => (sortBy === key ? " ↓" : "");
+
+  return (
+    <div className="rounded-lg border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-12">#</TableHead>
+            <TableHead>{t("teams.team")}</TableHead>
+            <TableHead>{t("teams.members")}</TableHead>
+            <TableHead>{t("teams.games")}</TableHead>
+            <TableHead>{t("teams.best")}</TableHead>
+            <TableHead>
+              <button type="button" onClick={() => setSortBy("average")}>{t("teams.average")}{sortMark("average")}</button>
+            </TableHead>
+            <TableHead className="text-end">
+              <button type="button" onClick={() => setSortBy("total")}>{t("teams.total")}{sortMark("total")}</button>
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={7} className="text-muted-foreground">
+                {isLoading ? t("leaderboard.loading") : t("teams.empty")}
+              </TableCell>
+            </TableRow>
+          )}
+          {rows.map(team => (
+            <TableRow key={team.team} className={team.team.toLowerCase() === highlightTeam?.toLowerCase() ? "bg-accent" : ""}>
+              <TableCell>{ranked.indexOf(team) + 1}</TableCell>
+              <TableCell className="font-medium">{team.team}</TableCell>
+              <TableCell className="text-muted-foreground">{team.members.join(", ")}</TableCell>
+              <TableCell>{team.games}</TableCell>
+              <TableCell>{team.bestScore}</TableCell>
+              <TableCell>{team.average}</TableCell>
+              <TableCell className="text-end font-semibold">{team.total}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
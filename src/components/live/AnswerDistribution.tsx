@@ -0,0 +1,31 @@
+import { Check } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+
+interface AnswerDistributionProps {
+  options: string[];
+  counts: number[];
+  /** Highlighted once the answer has been revealed */
+  correctIndex?: number;
+}
+
+/** How many players picked each option, as bars. */
+export function AnswerDistribution({ options, counts, correctIndex }: AnswerDistributionProps) {
+  const total = counts.reduce((sum, n) => sum + n, 0);
+  return (
+    <ul className="space-y-3">
+      {options.map((option, i) => (
+        <li key={i} className={cn("rounded-lg border p-3", correctIndex === i && "border-primary bg-accent")}>
+          <div className="mb-2 flex items-center justify-between gap-3">
+            <span className="flex items-center gap-2 font-medium">
+              {correctIndex === i && <Check className="h-4 w-4 text-primary" aria-hidden />}
+              {option}
+            </span>
+            <span className="tabular-nums text-muted-foreground">{counts[i] ?? 0}</span>
+          </div>
+          <Progress value={total ? ((counts[i] ?? 0) / total) * 100 : 0} />
+        </li>
+      ))}
+    </ul>
+  );
+}
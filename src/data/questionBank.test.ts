@@ -0,0 +1,49 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { answerPositionIssue, formatBankIssue, parseBank, validateBank } from "@/data/questionBank";
+import { QUESTIONS } from "@/data/questions";
+
+const BANKS_DIR = new URL("../../public/banks/", import.meta.url);
+
+const choice = (id: string, answerIndex: number) => ({
+  id,
+  category: "PrEP",
+  difficulty: "easy",
+  text: `Question ${id}?`,
+  options: ["A", "B", "C", "D"],
+  answerIndex,
+});
+
+describe("answerPositionIssue", () => {
+  it("flags a bank whose answers mostly share one position", () => {
+    const bank = validateBank(Array.from({ length: 8 }, (_, i) => choice(`q${i}`, i < 5 ? 0 : i % 4)), "skewed.json");
+    expect(bank.questions).toHaveLength(8);
+    expect(bank.errors.map(formatBankIssue)).toEqual([
+      "5 of 8 single-answer questions have option 1 as the answer; mix up where the right answer goes",
+    ]);
+  });
+
+  it("leaves an even spread and small banks alone", () => {
+    expect(answerPositionIssue(validateBank(Array.from({ length: 8 }, (_, i) => choice(`q${i}`, i % 4)), "even.json").questions)).toBeNull();
+    expect(answerPositionIssue(validateBank(Array.from({ length: 7 }, (_, i) => choice(`q${i}`, 0)), "small.json").questions)).toBeNull();
+  });
+});
+
+// Runs in CI so neither the built-in questions nor a bundled bank can ship with invalid entries or a giveaway answer position
+it("the built-in questions have no problems", () => {
+  const bank = validateBank(QUESTIONS, "questions.ts");
+  expect(bank.errors.map(formatBankIssue)).toEqual([]);
+  expect(bank.questions).toHaveLength(QUESTIONS.length);
+});
+
+describe("bundled banks", () => {
+  const { banks } = JSON.parse(readFileSync(new URL("index.json", BANKS_DIR), "utf8")) as { banks: string[] };
+  const ids = QUESTIONS.map(q => q.id);
+
+  it.each(banks)("%s has no problems", (file) => {
+    const bank = parseBank(readFileSync(new URL(file, BANKS_DIR), "utf8"), file, ids);
+    expect(bank.errors.map(formatBankIssue)).toEqual([]);
+    expect(bank.questions.length).toBeGreaterThan(0);
+    ids.push(...bank.questions.map(q => q.id));
+  });
+});
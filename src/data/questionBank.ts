@@ -0,0 +1,253 @@
+// Loading, validation and merging of external question banks (JSON)
+
+import { CATEGORIES, DIFFICULTIES, isChoice, QUESTION_TYPES, type Question, type QuestionType } from "@/data/questions";
+
+export interface BankIssue {
+  /** Position of the entry in the bank, or -1 for problems with the file itself */
+  index: number;
+  id?: string;
+  field?: string;
+  message: string;
+}
+
+export interface LoadedBank {
+  /** File name or URL the bank came from; also used as its identity */
+  source: string;
+  name: string;
+  questions: Question[];
+  errors: BankIssue[];
+  /** Set when a bundled bank's file couldn't be fetched at all */
+  unavailable?: boolean;
+}
+
+const BANKS_KEY = "yfit_question_banks";
+const BUNDLED_INDEX = "/banks/index.json";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isStringList(value: unknown, min: number): value is string[] {
+  return Array.isArray(value) && value.length >= min && value.every(isNonEmptyString);
+}
+
+/** Checks the fields that depend on the question type and returns them tidied. */
+function validateAnswer(e: Record<string, unknown>, issue: (field: string, message: string) => void): Partial<Question> {
+  switch (e.type) {
+    case "trueFalse":
+      if (typeof e.answer !== "boolean") issue("answer", "answer must be true or false");
+      return { type: "trueFalse", answer: e.answer as boolean };
+    case "ordering":
+      if (!isStringList(e.steps, 2)) {
+        issue("steps", "steps must be an array of at least 2 non-empty strings");
+        return {};
+      }
+      return { type: "ordering", steps: e.steps.map(s => s.trim()) };
+    case "mythFact": {
+      const statements = e.statements;
+      const valid = Array.isArray(statements) && statements.length > 0 &&
+        statements.every(s => s && typeof s === "object" && isNonEmptyString(s.text) && typeof s.fact === "boolean");
+      if (!valid) {
+        issue("statements", "statements must be a non-empty array of { text, fact } with fact true or false");
+        return {};
+      }
+      return { type: "mythFact", statements: statements.map(s => ({ text: s.text.trim(), fact: s.fact })) };
+    }
+  }
+
+  const options = e.options;
+  const optionsValid = isStringList(options, 2);
+  if (!optionsValid) issue("options", "options must be an array of at least 2 non-empty strings");
+  const inRange = (n: unknown): n is number => Number.isInteger(n) && (!optionsValid || ((n as number) >= 0 && (n as number) < options.length));
+  const range = optionsValid ? ` (0–${options.length - 1})` : "";
+  const tidied = optionsValid ? options.map(o => o.trim()) : [];
+  const optionImages = e.optionImages;
+  if (optionImages !== undefined && !(Array.isArray(optionImages) && optionImages.length === tidied.length && optionImages.every(src => typeof src === "string"))) {
+    issue("optionImages", "optionImages must list one image URL per option, \"\" for none, when present");
+  }
+  const images = Array.isArray(optionImages) && optionImages.some(isNonEmptyString) ? { optionImages: (optionImages as string[]).map(src => src.trim()) } : {};
+
+  if (e.type === "multiSelect") {
+    const indexes = e.answerIndexes;
+    if (!Array.isArray(indexes) || !indexes.length || !indexes.every(inRange)) {
+      issue("answerIndexes", `answerIndexes must be a non-empty array of option indexes${range}`);
+    } else if (new Set(indexes).size !== indexes.length) {
+      issue("answerIndexes", "answerIndexes must not repeat an option");
+    }
+    return { type: "multiSelect", options: tidied, answerIndexes: indexes as number[], ...images };
+  }
+
+  if (typeof e.answerIndex !== "number" || !Number.isInteger(e.answerIndex)) {
+    issue("answerIndex", "answerIndex must be an integer");
+  } else if (!inRange(e.answerIndex)) {
+    issue("answerIndex", `answerIndex ${e.answerIndex} is outside options${range}`);
+  }
+  // Untyped entries stay untyped so older banks round-trip unchanged
+  return { ...(e.type === "choice" && { type: "choice" as const }), options: tidied, answerIndex: e.answerIndex as number, ...images };
+}
+
+function validateEntry(entry: unknown, index: number, seenIds: Set<string>): { question?: Question; issues: BankIssue[] } {
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    return { issues: [{ index, message: "Entry must be an object" }] };
+  }
+  const e = entry as Record<string, unknown>;
+  const id = isNonEmptyString(e.id) ? e.id.trim() : undefined;
+  const issues: BankIssue[] = [];
+  const issue = (field: string, message: string) => issues.push({ index, id, field, message });
+
+  if (!id) issue("id", "id must be a non-empty string");
+  else if (seenIds.has(id)) issue("id", `Duplicate id "${id}"`);
+
+  if (!CATEGORIES.includes(e.category as Question["category"])) {
+    issue("category", `category must be one of ${CATEGORIES.map(c => `"${c}"`).join(", ")}`);
+  }
+  if (!DIFFICULTIES.includes(e.difficulty as Question["difficulty"])) {
+    issue("difficulty", `difficulty must be one of ${DIFFICULTIES.map(d => `"${d}"`).join(", ")}`);
+  }
+  if (!isNonEmptyString(e.text)) issue("text", "text must be a non-empty string");
+
+  if (e.type !== undefined && !QUESTION_TYPES.includes(e.type as QuestionType)) {
+    issue("type", `type must be one of ${QUESTION_TYPES.map(q => `"${q}"`).join(", ")} when present`);
+  }
+  const answer = validateAnswer(e, issue);
+
+  const image = e.image as Record<string, unknown> | undefined;
+  if (image !== undefined && !(image && typeof image === "object" && isNonEmptyString(image.src) && isNonEmptyString(image.alt))) {
+    issue("image", "image must be { src, alt } with both non-empty when present");
+  }
+
+  if (e.explanation !== undefined && typeof e.explanation !== "string") {
+    issue("explanation", "explanation must be a string when present");
+  }
+
+  if (issues.length) return { issues };
+  seenIds.add(id);
+  const question = {
+    id,
+    category: e.category as Question["category"],
+    difficulty: e.difficulty as Question["difficulty"],
+    text: (e.text as string).trim(),
+    ...answer,
+  } as Question;
+  if (image) question.image = { src: (image.src as string).trim(), alt: (image.alt as string).trim() };
+  if (isNonEmptyString(e.explanation)) question.explanation = e.explanation.trim();
+  return { question, issues };
+}
+
+/**
+ * Validates raw bank data. Accepts either a bare array of questions or
+ * `{ name, questions }`. Invalid entries are dropped and reported; ids already
+ * in `existingIds` count as duplicates. A lopsided answer spread is reported
+ * too, though its questions are kept.
+ */
+export function validateBank(data: unknown, source: string, existingIds: Iterable<string> = []): LoadedBank {
+  const raw = data as { name?: unknown; questions?: unknown } | unknown[];
+  const entries = Array.isArray(raw) ? raw : raw && typeof raw === "object" ? raw.questions : undefined;
+  const name = !Array.isArray(raw) && raw && isNonEmptyString(raw.name) ? raw.name.trim() : source;
+
+  if (!Array.isArray(entries)) {
+    return { source, name, questions: [], errors: [{ index: -1, message: "Expected an array of questions or an object with a \"questions\" array" }] };
+  }
+
+  const seenIds = new Set(existingIds);
+  const questions: Question[] = [];
+  const errors: BankIssue[] = [];
+  entries.forEach((entry, index) => {
+    const result = validateEntry(entry, index, seenIds);
+    if (result.question) questions.push(result.question);
+    errors.push(...result.issues);
+  });
+  const skew = answerPositionIssue(questions);
+  if (skew) errors.push(skew);
+  return { source, name, questions, errors };
+}
+
+export function parseBank(json: string, source: string, existingIds: Iterable<string> = []): LoadedBank {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    return { source, name: source, questions: [], errors: [{ index: -1, message: `Invalid JSON: ${(err as Error).message}` }] };
+  }
+  return validateBank(data, source, existingIds);
+}
+
+export async function readBankFile(file: File, existingIds: Iterable<string> = []): Promise<LoadedBank> {
+  return parseBank(await file.text(), file.name, existingIds);
+}
+
+/** Loads every bank listed in `public/banks/index.json`, validating them in order. */
+export async function fetchBundledBanks(existingIds: Iterable<string> = []): Promise<LoadedBank[]> {
+  const res = await fetch(BUNDLED_INDEX);
+  if (!res.ok) throw new Error(`Could not load ${BUNDLED_INDEX} (HTTP ${res.status})`);
+  const index = (await res.json()) as { banks?: string[] };
+  const ids = new Set(existingIds);
+  const banks: LoadedBank[] = [];
+  for (const file of index.banks ?? []) {
+    const url = `/banks/${file}`;
+    const bankRes = await fetch(url);
+    const bank = bankRes.ok
+      ? parseBank(await bankRes.text(), url, ids)
+      : { source: url, name: file, questions: [], errors: [{ index: -1, message: `Could not load (HTTP ${bankRes.status})` }], unavailable: true };
+    bank.questions.forEach(q => ids.add(q.id));
+    banks.push(bank);
+  }
+  return banks;
+}
+
+/** Appends bank questions to the base pool; the first question with a given id wins. */
+export function mergeBanks(base: Question[], banks: LoadedBank[]): Question[] {
+  const ids = new Set(base.map(q => q.id));
+  const merged = [...base];
+  for (const bank of banks) {
+    for (const q of bank.questions) {
+      if (ids.has(q.id)) continue;
+      ids.add(q.id);
+      merged.push(q);
+    }
+  }
+  return merged;
+}
+
+export function readImportedBanks(): LoadedBank[] {
+  try {
+    const raw = localStorage.getItem(BANKS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeImportedBanks(banks: LoadedBank[]) {
+  localStorage.setItem(BANKS_KEY, JSON.stringify(banks.map(b => ({ ...b, errors: [] }))));
+}
+
+// Fewer single-answer questions than this and a lopsided spread is just chance
+const SKEW_MIN_QUESTIONS = 8;
+// Flag a bank when more than this share of answers sit in the same position
+const SKEW_LIMIT = 0.5;
+
+/**
+ * Warns when a bank's single-answer questions nearly always have the answer in
+ * the same position. Games shuffle options, but printouts, exports and other
+ * tools may not, and players of those learn to tap the first button.
+ */
+export function answerPositionIssue(questions: Question[]): BankIssue | null {
+  const positions = questions.filter(isChoice).map(q => q.answerIndex);
+  if (positions.length < SKEW_MIN_QUESTIONS) return null;
+  const counts = new Map<number, number>();
+  for (const p of positions) counts.set(p, (counts.get(p) ?? 0) + 1);
+  const [position, count] = [...counts].sort((a, b) => b[1] - a[1])[0];
+  if (count / positions.length <= SKEW_LIMIT) return null;
+  return {
+    index: -1,
+    field: "answerIndex",
+    message: `${count} of ${positions.length} single-answer questions have option ${position + 1} as the answer; mix up where the right answer goes`,
+  };
+}
+
+export function formatBankIssue(issue: BankIssue): string {
+  if (issue.index < 0) return issue.message;
+  const where = issue.id ? `Entry ${issue.index + 1} ("${issue.id}")` : `Entry ${issue.index + 1}`;
+  return `${where}: ${issue.message}`;
+}
@@ -2,15 +2,77 @@
 
 export type Difficulty = "easy" | "medium" | "hard";
 export type Category = "HIV Self-Testing" | "PrEP" | "Reproductive Health";
+// "all" mixes every category into one pool
+export type Topic = Category | "all";
 
-export interface Question {
+export const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+export const CATEGORIES: Category[] = ["HIV Self-Testing", "PrEP", "Reproductive Health"];
+
+export type QuestionType = "choice" | "trueFalse" | "multiSelect" | "ordering" | "mythFact";
+export const QUESTION_TYPES: QuestionType[] = ["choice", "trueFalse", "multiSelect", "ordering", "mythFact"];
+
+export interface QuestionImage {
+  /** Absolute URL, or a path under public/ such as "/media/kit.svg" */
+  src: string;
+  alt: string;
+}
+
+interface QuestionBase {
   id: string;
   category: Category;
   difficulty: Difficulty;
   text: string;
+  image?: QuestionImage;
+  explanation?: string;
+}
+
+/** One right answer from a list; questions without a `type` are this kind */
+export interface ChoiceQuestion extends QuestionBase {
+  type?: "choice";
   options: string[];
   answerIndex: number;
-  explanation?: string;
+  /** A picture for each option by position, "" for none; the option text stays its label */
+  optionImages?: string[];
+}
+
+export interface TrueFalseQuestion extends QuestionBase {
+  type: "trueFalse";
+  answer: boolean;
+}
+
+/** "Select all that apply" */
+export interface MultiSelectQuestion extends QuestionBase {
+  type: "multiSelect";
+  options: string[];
+  answerIndexes: number[];
+  optionImages?: string[];
+}
+
+/** Steps listed in the right order; players see them scrambled */
+export interface OrderingQuestion extends QuestionBase {
+  type: "ordering";
+  steps: string[];
+}
+
+export interface MythFactStatement {
+  text: string;
+  fact: boolean;
+}
+
+/** Each statement is sorted into myth or fact in turn */
+export interface MythFactQuestion extends QuestionBase {
+  type: "mythFact";
+  statements: MythFactStatement[];
+}
+
+export type Question = ChoiceQuestion | TrueFalseQuestion | MultiSelectQuestion | OrderingQuestion | MythFactQuestion;
+
+export function questionType(question: Question): QuestionType {
+  return question.type ?? "choice";
+}
+
+export function isChoice(question: Question): question is ChoiceQuestion {
+  return questionType(question) === "choice";
 }
 
 export const DIFFICULTY_POINTS: Record<Difficulty, number> = {
@@ -28,12 +90,12 @@ export const QUESTIONS: Question[] = [
     difficulty: "easy",
     text: "What does HIV self-testing allow you to do?",
     options: [
-      "Test yourself for HIV in private",
       "Cure HIV at home",
       "Donate blood at home",
+      "Test yourself for HIV in private",
       "Vaccinate against HIV",
     ],
-    answerIndex: 0,
+    answerIndex: 2,
     explanation: "HIV self-testing lets you test yourself discretely and privately.",
   },
   {
@@ -41,8 +103,8 @@ export const QUESTIONS: Question[] = [
     category: "PrEP",
     difficulty: "easy",
     text: "What is PrEP primarily used for?",
-    options: ["Preventing HIV", "Treating flu", "Lowering blood pressure", "Curing HIV"],
-    answerIndex: 0,
+    options: ["Treating flu", "Lowering blood pressure", "Curing HIV", "Preventing HIV"],
+    answerIndex: 3,
     explanation: "Pre-Exposure Prophylaxis (PrEP) greatly reduces the risk of getting HIV.",
   },
   {
@@ -50,8 +112,8 @@ export const QUESTIONS: Question[] = [
     category: "Reproductive Health",
     difficulty: "easy",
     text: "Which is a modern contraceptive method?",
-    options: ["Condoms", "Garlic", "Cold showers", "Skipping meals"],
-    answerIndex: 0,
+    options: ["Garlic", "Condoms", "Cold showers", "Skipping meals"],
+    answerIndex: 1,
     explanation: "Condoms are a modern method and also help prevent STIs including HIV.",
   },
   {
@@ -73,8 +135,8 @@ export const QUESTIONS: Question[] = [
     category: "Reproductive Health",
     difficulty: "easy",
     text: "Which method helps prevent both pregnancy and STIs?",
-    options: ["Condoms", "Pill", "IUD", "Calendar method"],
-    answerIndex: 0,
+    options: ["Pill", "IUD", "Calendar method", "Condoms"],
+    answerIndex: 3,
     explanation: "Only condoms protect against both STIs and pregnancy.",
   },
   {
@@ -82,8 +144,8 @@ export const QUESTIONS: Question[] = [
     category: "HIV Self-Testing",
     difficulty: "easy",
     text: "Where can you commonly get HIV self-test kits?",
-    options: ["Pharmacies/clinics/community programs", "Only online", "Only hospitals", "Nowhere"],
-    answerIndex: 0,
+    options: ["Only online", "Only hospitals", "Pharmacies/clinics/community programs", "Nowhere"],
+    answerIndex: 2,
     explanation: "Kits are widely available through pharmacies, clinics, and community programs (varies by country).",
   },
   {
@@ -101,12 +163,12 @@ export const QUESTIONS: Question[] = [
     difficulty: "easy",
     text: "What should you do if a condom breaks during sex?",
     options: [
-      "Consider emergency contraception and STI/HIV testing guidance",
       "Do nothing",
       "Reuse the condom",
       "Drink water",
+      "Consider emergency contraception and STI/HIV testing guidance",
     ],
-    answerIndex: 0,
+    answerIndex: 3,
     explanation: "Emergency contraception may reduce pregnancy risk; testing and PEP/PrEP advice may be appropriate—seek guidance.",
   },
   {
@@ -114,8 +176,8 @@ export const QUESTIONS: Question[] = [
     category: "PrEP",
     difficulty: "easy",
     text: "PrEP works best when taken...",
-    options: ["As prescribed, consistently", "Once a month", "Only after sex", "Only when you remember"],
-    answerIndex: 0,
+    options: ["Once a month", "Only after sex", "As prescribed, consistently", "Only when you remember"],
+    answerIndex: 2,
     explanation: "Consistency matters for effectiveness.",
   },
   {
@@ -123,8 +185,8 @@ export const QUESTIONS: Question[] = [
     category: "Reproductive Health",
     difficulty: "easy",
     text: "Which is a sign of healthy consent?",
-    options: ["A clear and enthusiastic yes", "Silence", "Pressure", "Confusion"],
-    answerIndex: 0,
+    options: ["Silence", "A clear and enthusiastic yes", "Pressure", "Confusion"],
+    answerIndex: 1,
     explanation: "Consent is clear, informed, and freely given.",
   },
 
@@ -157,8 +219,8 @@ export const QUESTIONS: Question[] = [
     category: "Reproductive Health",
     difficulty: "medium",
     text: "Which symptom warrants STI testing?",
-    options: ["Unusual discharge", "Hiccups", "Dry skin", "Sneezing"],
-    answerIndex: 0,
+    options: ["Hiccups", "Dry skin", "Sneezing", "Unusual discharge"],
+    answerIndex: 3,
     explanation: "Unusual discharge can signal an STI. Testing and treatment are important.",
   },
   {
@@ -189,8 +251,8 @@ export const QUESTIONS: Question[] = [
     category: "HIV Self-Testing",
     difficulty: "medium",
     text: "Oral-fluid HIV self-tests primarily detect...",
-    options: ["HIV antibodies", "HIV RNA", "CD4 cells", "Viral load"],
-    answerIndex: 0,
+    options: ["HIV RNA", "CD4 cells", "HIV antibodies", "Viral load"],
+    answerIndex: 2,
     explanation: "Most self-tests detect antibodies.",
   },
   {
@@ -208,12 +270,12 @@ export const QUESTIONS: Question[] = [
     difficulty: "medium",
     text: "Emergency contraception options include...",
     options: [
-      "Pills and copper IUD",
       "Antibiotics",
       "Vitamin supplements",
       "Herbal tea",
+      "Pills and copper IUD",
     ],
-    answerIndex: 0,
+    answerIndex: 3,
     explanation: "EC pills and copper IUD are recognized options.",
   },
   {
@@ -221,8 +283,8 @@ export const QUESTIONS: Question[] = [
     category: "PrEP",
     difficulty: "medium",
     text: "While on PrEP, routine HIV/STI screening is commonly recommended...",
-    options: ["Every 3 months", "Every day", "Every 2 years", "Never"],
-    answerIndex: 0,
+    options: ["Every day", "Every 2 years", "Every 3 months", "Never"],
+    answerIndex: 2,
     explanation: "Quarterly check-ins are common; follow local guidance.",
   },
   {
@@ -255,8 +317,8 @@ export const QUESTIONS: Question[] = [
     category: "PrEP",
     difficulty: "hard",
     text: "Which option is a long-acting form of PrEP available in some settings?",
-    options: ["Cabotegravir injection", "Vitamin C infusion", "Herbal syrup", "Penicillin injection"],
-    answerIndex: 0,
+    options: ["Vitamin C infusion", "Herbal syrup", "Penicillin injection", "Cabotegravir injection"],
+    answerIndex: 3,
     explanation: "Long-acting cabotegravir injections are an approved PrEP option in some countries.",
   },
   {
@@ -264,8 +326,8 @@ export const QUESTIONS: Question[] = [
     category: "Reproductive Health",
     difficulty: "hard",
     text: "Emergency contraception is most effective when taken within...",
-    options: ["120 hours", "2 weeks", "1 month", "It has no time limit"],
-    answerIndex: 0,
+    options: ["2 weeks", "1 month", "120 hours", "It has no time limit"],
+    answerIndex: 2,
     explanation: "Most effective within 120 hours (5 days), earlier is better.",
   },
   {
@@ -282,8 +344,8 @@ export const QUESTIONS: Question[] = [
     category: "PrEP",
     difficulty: "hard",
     text: "After initiation doses, long-acting cabotegravir PrEP is typically administered...",
-    options: ["Every 2 months", "Every 6 months", "Daily", "Once a year"],
-    answerIndex: 0,
+    options: ["Every 6 months", "Every 2 months", "Daily", "Once a year"],
+    answerIndex: 1,
     explanation: "Maintenance injections are commonly given every 2 months—follow local protocols.",
   },
   {
@@ -291,8 +353,8 @@ export const QUESTIONS: Question[] = [
     category: "HIV Self-Testing",
     difficulty: "hard",
     text: "Fourth-generation lab tests (antigen/antibody) can detect HIV typically within...",
-    options: ["18–45 days", "Same day", "6–12 months", "10 years"],
-    answerIndex: 0,
+    options: ["Same day", "6–12 months", "10 years", "18–45 days"],
+    answerIndex: 3,
     explanation: "4th-gen tests detect p24 antigen and antibodies, shortening the window period.",
   },
   {
@@ -301,12 +363,12 @@ export const QUESTIONS: Question[] = [
     difficulty: "hard",
     text: "Which contraceptive methods have the lowest typical-use failure rates?",
     options: [
-      "Long-acting reversible contraception (IUD/implant)",
       "Withdrawal",
       "Fertility awareness only",
+      "Long-acting reversible contraception (IUD/implant)",
       "Spermicides alone",
     ],
-    answerIndex: 0,
+    answerIndex: 2,
     explanation: "IUDs and implants are highly effective with typical use.",
   },
   {
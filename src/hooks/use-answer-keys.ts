@@ -0,0 +1,38 @@
+import { useEffect } from "react";
+
+interface AnswerKeysOptions {
+  enabled: boolean;
+  optionCount: number;
+  /** Called with a zero-based option index for keys 1–9 */
+  onSelect: (index: number) => void;
+  onNext: () => void;
+}
+
+const TYPING = "input, textarea, select, [contenteditable=true]";
+// Enter already activates these natively; handling it again would skip a question
+const ACTIVATES_ON_ENTER = `${TYPING}, button, a, [role=button], [role=option], [role=menuitem]`;
+
+/** Number keys pick an option and Enter moves on, while a question is on screen. */
+export function useAnswerKeys({ enabled, optionCount, onSelect, onNext }: AnswerKeysOptions) {
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.altKey || e.ctrlKey || e.metaKey || e.defaultPrevented) return;
+      const target = e.target instanceof Element ? e.target : null;
+      if (e.key === "Enter") {
+        if (target?.closest(ACTIVATES_ON_ENTER)) return;
+        e.preventDefault();
+        onNext();
+        return;
+      }
+      if (target?.closest(TYPING)) return;
+      const n = Number(e.key);
+      if (Number.isInteger(n) && n >= 1 && n <= optionCount) {
+        e.preventDefault();
+        onSelect(n - 1);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [enabled, optionCount, onSelect, onNext]);
+}
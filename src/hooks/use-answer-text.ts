@@ -0,0 +1,67 @@
+import { useCallback } from "react";
+import type { Question } from "@/data/questions";
+import { useI18n } from "@/i18n/context";
+import type { MessageKey } from "@/i18n";
+import { gradeResponse, scrambledSteps, type Response } from "@/lib/grading";
+
+const PROMPTS: Partial<Record<NonNullable<Question["type"]>, MessageKey>> = {
+  trueFalse: "questionTypes.trueFalsePrompt",
+  multiSelect: "questionTypes.multiSelectPrompt",
+  ordering: "questionTypes.orderingPrompt",
+  mythFact: "questionTypes.mythFactPrompt",
+};
+
+/** Puts questions and answers into words, for the review list, screen readers and narration. */
+export function useAnswerText() {
+  const { t } = useI18n();
+
+  /** What the player is asked to do, beyond the question text; empty for single-answer questions */
+  const prompt = useCallback((question: Question) => {
+    const key = question.type && PROMPTS[question.type];
+    return key ? t(key) : "";
+  }, [t]);
+
+  /** The answer in words; a response of null or [] reads as no answer. */
+  const describe = useCallback((question: Question, response: Response | null) => {
+    if (!response?.length) return t("questionTypes.noAnswer");
+    switch (question.type) {
+      case "trueFalse":
+        return t(response[0] === 0 ? "questionTypes.true" : "questionTypes.false");
+      case "multiSelect":
+        return response.map(i => question.options[i]).join("; ");
+      case "ordering":
+        return response.map((step, i) => `${i + 1}. ${question.steps[step]}`).join(" ");
+      case "mythFact":
+        return question.statements
+          .map((s, i) => `${s.text} — ${response[i] === undefined ? "—" : t(response[i] === 1 ? "questionTypes.fact" : "questionTypes.myth")}`)
+          .join("; ");
+      default:
+        return question.options[response[0]] ?? t("questionTypes.noAnswer");
+    }
+  }, [t]);
+
+  /** Right, partly right, wrong or out of time. */
+  const verdict = useCallback((question: Question, response: Response) => {
+    if (!response.length) return t("play.timeUp");
+    const grade = gradeResponse(question, response);
+    return t(grade.correct ? "play.correct" : grade.credit > 0 ? "questionTypes.partlyRight" : "play.wrong");
+  }, [t]);
+
+  /** The question, its instructions and its choices, in the order players see them. */
+  const readAloud = useCallback((question: Question) => {
+    const choices = (items: string[]) => items.map((option, i) => t("narration.option", { number: i + 1, option }));
+    const lines = [question.text, prompt(question)];
+    switch (question.type) {
+      case "trueFalse":
+        return lines;
+      case "ordering":
+        return [...lines, ...choices(scrambledSteps(question).map(i => question.steps[i]))];
+      case "mythFact":
+        return [...lines, ...question.statements.map((s, i) => t("narration.statement", { number: i + 1, statement: s.text }))];
+      default:
+        return [...lines, ...choices(question.options)];
+    }
+  }, [t, prompt]);
+
+  return { prompt, describe, verdict, readAloud };
+}
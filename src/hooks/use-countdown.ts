@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const TICK_MS = 100;
+
+/**
+ * Counts down from `durationMs` while `running` is true, calling `onExpire`
+ * once when it reaches zero. Pausing keeps the remaining time.
+ */
+export function useCountdown(durationMs: number, running: boolean, onExpire: () => void) {
+  const [remainingMs, setRemainingMs] = useState(durationMs);
+  const expireRef = useRef(onExpire);
+  expireRef.current = onExpire;
+
+  useEffect(() => {
+    if (!running) return;
+    let last = Date.now();
+    const id = window.setInterval(() => {
+      const now = Date.now();
+      const elapsed = now - last;
+      last = now;
+      setRemainingMs(prev => Math.max(0, prev - elapsed));
+    }, TICK_MS);
+    return () => window.clearInterval(id);
+  }, [running]);
+
+  useEffect(() => {
+    if (running && remainingMs === 0) expireRef.current();
+  }, [running, remainingMs]);
+
+  const reset = useCallback(() => setRemainingMs(durationMs), [durationMs]);
+
+  return { remainingMs, reset };
+}
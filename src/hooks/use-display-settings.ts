@@ -0,0 +1,15 @@
+import { useCallback, useState } from "react";
+import { applyDisplaySettings, readDisplaySettings, writeDisplaySettings, type DisplaySettings } from "@/lib/display";
+
+export function useDisplaySettings() {
+  const [settings, setSettings] = useState<DisplaySettings>(() => readDisplaySettings());
+
+  const update = useCallback((change: Partial<DisplaySettings>) => {
+    const next = { ...readDisplaySettings(), ...change };
+    writeDisplaySettings(next);
+    applyDisplaySettings(next);
+    setSettings(next);
+  }, []);
+
+  return { settings, update };
+}
@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createConfiguredStore } from "@/lib/leaderboardStore";
+import type { ScoreEntry } from "@/lib/leaderboard";
+
+export const leaderboardStore = createConfiguredStore();
+const queryKey = ["leaderboard", leaderboardStore.id];
+
+export function useLeaderboard() {
+  return useQuery({ queryKey, queryFn: () => leaderboardStore.list() });
+}
+
+export function useSubmitScore() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (entry: ScoreEntry) => leaderboardStore.submit(entry),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
+
+/** Replays queued submissions on mount and whenever the browser comes back online. */
+export function useLeaderboardSync() {
+  const queryClient = useQueryClient();
+  useEffect(() => {
+    const flush = async () => {
+      if (!leaderboardStore.pending().length) return;
+      const sent = await leaderboardStore.flush();
+      if (sent) queryClient.invalidateQueries({ queryKey });
+    };
+    flush();
+    window.addEventListener("online", flush);
+    return () => window.removeEventListener("online", flush);
+  }, [queryClient]);
+}
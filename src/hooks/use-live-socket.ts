@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { liveRelayUrl } from "@/lib/live";
+
+export type LiveStatus = "idle" | "connecting" | "open" | "closed";
+
+/**
+ * One connection to the live relay. `connect` sends `hello` as soon as the
+ * socket opens; incoming messages are parsed and passed to `onMessage`.
+ */
+export function useLiveSocket<In, Out>(onMessage: (message: In) => void) {
+  const [status, setStatus] = useState<LiveStatus>("idle");
+  const socketRef = useRef<WebSocket | null>(null);
+  const messageRef = useRef(onMessage);
+  messageRef.current = onMessage;
+
+  const disconnect = useCallback(() => {
+    socketRef.current?.close();
+    socketRef.current = null;
+  }, []);
+
+  const connect = useCallback((hello: Out) => {
+    socketRef.current?.close();
+    const ws = new WebSocket(liveRelayUrl());
+    socketRef.current = ws;
+    setStatus("connecting");
+    ws.onopen = () => {
+      setStatus("open");
+      ws.send(JSON.stringify(hello));
+    };
+    ws.onmessage = (e) => {
+      let message: In;
+      try {
+        message = JSON.parse(e.data);
+      } catch {
+        // Not ours; the relay only sends JSON
+        return;
+      }
+      messageRef.current(message);
+    };
+    ws.onclose = () => {
+      if (socketRef.current === ws) setStatus("closed");
+    };
+  }, []);
+
+  const send = useCallback((message: Out) => {
+    const ws = socketRef.current;
+    if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  }, []);
+
+  useEffect(() => disconnect, [disconnect]);
+
+  return { status, connect, send, disconnect };
+}
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useI18n } from "@/i18n/context";
+import {
+  isSpeechSupported,
+  readNarration,
+  voiceChoice,
+  voicesFor,
+  writeNarration,
+  type NarrationSettings,
+  type VoiceChoice,
+} from "@/lib/narration";
+
+/** Reads text aloud in the current locale using the player's saved voice and rate. */
+export function useNarration() {
+  const { locale } = useI18n();
+  const supported = isSpeechSupported();
+  const [settings, setSettings] = useState<NarrationSettings>(() => readNarration());
+  const [allVoices, setAllVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [speaking, setSpeaking] = useState(false);
+  const lastScript = useRef<string[]>([]);
+  // Cancelling fires the old utterance's end event late; only the latest script may clear `speaking`
+  const generation = useRef(0);
+  const timer = useRef<number>();
+
+  // Most browsers load voices asynchronously
+  useEffect(() => {
+    if (!supported) return;
+    const load = () => setAllVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener("voiceschanged", load);
+    return () => window.speechSynthesis.removeEventListener("voiceschanged", load);
+  }, [supported]);
+
+  // Nothing keeps talking after the player leaves the page
+  useEffect(() => () => {
+    window.clearTimeout(timer.current);
+    if (supported) window.speechSynthesis.cancel();
+  }, [supported]);
+
+  const voices = voicesFor(allVoices, locale);
+  const choice = voiceChoice(settings, locale);
+  const enabled = supported && settings.enabled;
+
+  const update = useCallback((change: Partial<NarrationSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...change };
+      writeNarration(next);
+      if (!next.enabled && supported) window.speechSynthesis.cancel();
+      return next;
+    });
+  }, [supported]);
+
+  const choose = useCallback((change: Partial<VoiceChoice>) => {
+    setSettings(prev => {
+      const next = { ...prev, byLocale: { ...prev.byLocale, [locale]: { ...voiceChoice(prev, locale), ...change } } };
+      writeNarration(next);
+      return next;
+    });
+  }, [locale]);
+
+  const cancel = useCallback(() => {
+    if (!supported) return;
+    generation.current++;
+    window.clearTimeout(timer.current);
+    window.speechSynthesis.cancel();
+    setSpeaking(false);
+  }, [supported]);
+
+  const say = useCallback((script: string[], gen: number) => {
+    const voice = allVoices.find(v => v.voiceURI === choice.voice);
+    script.forEach((line, i) => {
+      const utterance = new SpeechSynthesisUtterance(line);
+      utterance.lang = voice?.lang ?? locale;
+      if (voice) utterance.voice = voice;
+      utterance.rate = choice.rate;
+      if (i === 0) utterance.onstart = () => gen === generation.current && setSpeaking(true);
+      if (i === script.length - 1) utterance.onend = utterance.onerror = () => gen === generation.current && setSpeaking(false);
+      window.speechSynthesis.speak(utterance);
+    });
+  }, [allVoices, choice.voice, choice.rate, locale]);
+
+  /**
+   * Replaces whatever is being read with `lines`, read one after another.
+   * `delayMs` leaves room for a sound effect to finish first.
+   */
+  const speak = useCallback((lines: string[], { delayMs = 0, force = false } = {}) => {
+    const script = lines.filter(Boolean);
+    lastScript.current = script;
+    if (!supported || (!enabled && !force)) return;
+    const gen = ++generation.current;
+    window.clearTimeout(timer.current);
+    window.speechSynthesis.cancel();
+    if (!script.length) return setSpeaking(false);
+    timer.current = window.setTimeout(() => {
+      if (gen === generation.current) say(script, gen);
+    }, delayMs);
+  }, [supported, enabled, say]);
+
+  /** Reads the last script again, even with narration switched off. */
+  const replay = useCallback(() => speak(lastScript.current, { force: true }), [speak]);
+
+  /** For callers outside React state, e.g. sound effects deciding whether to stay quiet. */
+  const isSpeaking = useCallback(() => supported && window.speechSynthesis.speaking, [supported]);
+
+  return { supported, enabled, settings, update, voices, choice, choose, speaking, speak, replay, cancel, isSpeaking };
+}
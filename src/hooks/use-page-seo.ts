@@ -0,0 +1,15 @@
+import { useEffect } from "react";
+
+export function usePageSEO(title: string, description: string) {
+  useEffect(() => {
+    document.title = title;
+    const name = "description";
+    let tag = document.querySelector(`meta[name="${name}"]`);
+    if (!tag) {
+      tag = document.createElement("meta");
+      tag.setAttribute("name", name);
+      document.head.appendChild(tag);
+    }
+    tag.setAttribute("content", description);
+  }, [title, description]);
+}
@@ -0,0 +1,79 @@
+import { useCallback, useState } from "react";
+import type { Question } from "@/data/questions";
+import { awardAchievements, type AchievementId } from "@/lib/achievements";
+import { deleteKnowledge, readKnowledge } from "@/lib/practice";
+import { playerKey } from "@/lib/players";
+import {
+  applyGame,
+  newProfile,
+  readActiveProfileId,
+  readProfiles,
+  writeActiveProfileId,
+  writeProfiles,
+  type GameSummary,
+  type PlayerProfile,
+} from "@/lib/profiles";
+
+/** Profiles stored on this device and the one last played as. */
+export function useProfiles() {
+  const [profiles, setProfiles] = useState<PlayerProfile[]>(() => readProfiles());
+  const [activeId, setActiveId] = useState<string | null>(() => readActiveProfileId());
+
+  // Each change starts from storage so back-to-back updates don't overwrite each other
+  const update = useCallback((change: (list: PlayerProfile[]) => PlayerProfile[]) => {
+    const next = change(readProfiles());
+    writeProfiles(next);
+    setProfiles(next);
+  }, []);
+
+  const select = useCallback((id: string | null) => {
+    writeActiveProfileId(id);
+    setActiveId(id);
+  }, []);
+
+  /** Makes sure `name` has a profile, without changing the selection. */
+  const ensure = useCallback((name: string) => {
+    const id = playerKey(name);
+    update(list => (list.some(p => p.id === id) ? list : [...list, newProfile(name)]));
+    return id;
+  }, [update]);
+
+  /** Selects the profile for `name`, creating it first if needed. */
+  const create = useCallback((name: string) => {
+    const id = ensure(name);
+    select(id);
+    return id;
+  }, [ensure, select]);
+
+  const remove = useCallback((id: string) => {
+    update(list => list.filter(p => p.id !== id));
+    deleteKnowledge(id);
+    if (readActiveProfileId() === id) select(null);
+  }, [update, select]);
+
+  const setTeam = useCallback((id: string, team: string | null) => {
+    update(list => list.map(p => (p.id === id ? { ...p, team } : p)));
+  }, [update]);
+
+  /** Uses up the player's attempt at a day's challenge, so leaving halfway doesn't buy a second try. */
+  const startDaily = useCallback((id: string, day: string) => {
+    update(list => list.map(p => (p.id === id ? { ...p, dailyScores: { ...p.dailyScores, [day]: p.dailyScores[day] ?? 0 } } : p)));
+  }, [update]);
+
+  /** Counts a finished game on the player's profile; returns the achievements it unlocked. */
+  const recordGame = useCallback((name: string, game: GameSummary, pool: Question[]) => {
+    const id = playerKey(name);
+    const now = new Date();
+    let unlocked: AchievementId[] = [];
+    update(list => list.map(p => {
+      if (p.id !== id) return p;
+      const awarded = awardAchievements({ game, profile: applyGame(p, game, now), knowledge: readKnowledge(id), pool, now });
+      unlocked = awarded.unlocked;
+      return awarded.profile;
+    }));
+    return unlocked;
+  }, [update]);
+
+  const active = profiles.find(p => p.id === activeId) ?? null;
+  return { profiles, active, select, ensure, create, remove, setTeam, startDaily, recordGame };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { QUESTIONS } from "@/data/questions";
+import {
+  fetchBundledBanks,
+  mergeBanks,
+  readBankFile,
+  readImportedBanks,
+  writeImportedBanks,
+  type LoadedBank,
+} from "@/data/questionBank";
+import { prefetchImages, questionImageUrls } from "@/lib/media";
+
+const BASE_IDS = QUESTIONS.map(q => q.id);
+
+/** Built-in questions merged with bundled (`public/banks`) and user-imported banks. */
+export function useQuestionPool() {
+  const bundled = useQuery({
+    queryKey: ["question-banks", "bundled"],
+    queryFn: () => fetchBundledBanks(BASE_IDS),
+    staleTime: Infinity,
+  });
+  const [imported, setImported] = useState<LoadedBank[]>(() => readImportedBanks());
+
+  const banks = useMemo(() => [...(bundled.data ?? []), ...imported], [bundled.data, imported]);
+  const pool = useMemo(() => mergeBanks(QUESTIONS, banks), [banks]);
+
+  // Fetch every bank's pictures while online so games still show them offline
+  useEffect(() => {
+    prefetchImages(questionImageUrls(banks.flatMap(b => b.questions)));
+  }, [banks]);
+
+  const importFile = useCallback(async (file: File) => {
+    const others = imported.filter(b => b.source !== file.name);
+    const existingIds = mergeBanks(QUESTIONS, [...(bundled.data ?? []), ...others]).map(q => q.id);
+    const bank = await readBankFile(file, existingIds);
+    if (bank.questions.length) {
+      const next = [...others, bank];
+      setImported(next);
+      writeImportedBanks(next);
+    }
+    return bank;
+  }, [imported, bundled.data]);
+
+  const removeBank = useCallback((source: string) => {
+    const next = imported.filter(b => b.source !== source);
+    setImported(next);
+    writeImportedBanks(next);
+  }, [imported]);
+
+  // Games that must match other devices (the daily challenge) can only be dealt once every bundled bank is in
+  const bundledStatus: "loading" | "ready" | "failed" =
+    bundled.isLoading ? "loading" : bundled.isError || bundled.data?.some(b => b.unavailable) ? "failed" : "ready";
+
+  return { pool, bundled: bundled.data ?? [], imported, importFile, removeBank, isLoading: bundled.isLoading, bundledStatus };
+}
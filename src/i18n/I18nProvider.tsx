@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { I18nContext, type I18nContextValue } from "./context";
+import { localeInfo, localizeQuestion, readLocale, translate, writeLocale, type Locale } from "./index";
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(() => readLocale());
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = localeInfo(locale).dir;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    writeLocale(next);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, vars) => translate(locale, key, vars),
+    localize: q => localizeQuestion(q, locale),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from "react";
+import type { Question } from "@/data/questions";
+import { DEFAULT_LOCALE, localizeQuestion, translate, type Locale, type MessageKey, type TranslateVars } from "./index";
+
+export interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, vars?: TranslateVars) => string;
+  localize: <Q extends Question>(question: Q) => Q;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: (key, vars) => translate(DEFAULT_LOCALE, key, vars),
+  localize: q => q,
+});
+
+export function useI18n() {
+  return useContext(I18nContext);
+}
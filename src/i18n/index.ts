@@ -0,0 +1,71 @@
+// Lightweight i18n: UI message catalogs plus per-locale question translations,
+// both falling back to English.
+
+import type { Question } from "@/data/questions";
+import { DEFAULT_LOCALE, LOCALES, type Locale } from "./locales";
+import { en, type MessageKey, type Messages } from "./messages/en";
+import { fr } from "./messages/fr";
+import { fr as frQuestions } from "./questions/fr";
+import type { QuestionTranslations } from "./questions/types";
+
+export { LOCALES, DEFAULT_LOCALE, type Locale, type MessageKey };
+
+const MESSAGES: Record<Locale, Messages> = { en, fr };
+const QUESTION_TRANSLATIONS: Partial<Record<Locale, QuestionTranslations>> = { fr: frQuestions };
+
+const LOCALE_KEY = "yfit_locale";
+
+export type TranslateVars = Record<string, string | number>;
+
+export function translate(locale: Locale, key: MessageKey, vars?: TranslateVars): string {
+  const template = MESSAGES[locale][key] ?? en[key];
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+}
+
+/** Lists translated in full replace the English; partial ones are ignored. */
+function translatedList(translated: string[] | undefined, original: string[]): string[] {
+  return translated?.length === original.length ? translated : original;
+}
+
+/** Returns the question with its text, answers and explanation in `locale` where a translation exists. */
+export function localizeQuestion<Q extends Question>(question: Q, locale: Locale): Q {
+  const tr = QUESTION_TRANSLATIONS[locale]?.[question.id];
+  if (!tr) return question;
+  const localized: Question = { ...question, text: tr.text, explanation: tr.explanation ?? question.explanation };
+  if (localized.image && tr.imageAlt) localized.image = { ...localized.image, alt: tr.imageAlt };
+  switch (localized.type) {
+    case "trueFalse":
+      break;
+    case "ordering":
+      localized.steps = translatedList(tr.steps, localized.steps);
+      break;
+    case "mythFact": {
+      const texts = translatedList(tr.statements, localized.statements.map(s => s.text));
+      localized.statements = localized.statements.map((s, i) => ({ ...s, text: texts[i] }));
+      break;
+    }
+    default:
+      localized.options = translatedList(tr.options, localized.options);
+  }
+  return localized as Q;
+}
+
+export function localeInfo(locale: Locale) {
+  return LOCALES.find(l => l.code === locale) ?? LOCALES[0];
+}
+
+export function readLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY) as Locale | null;
+    if (saved && LOCALES.some(l => l.code === saved)) return saved;
+  } catch {
+    // ignore unavailable storage
+  }
+  const browser = typeof navigator !== "undefined" ? navigator.language.slice(0, 2) : "";
+  return LOCALES.find(l => l.code === browser)?.code ?? DEFAULT_LOCALE;
+}
+
+export function writeLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale);
+}
@@ -0,0 +1,15 @@
+export type Locale = "en" | "fr";
+
+export interface LocaleInfo {
+  code: Locale;
+  /** Name of the language in that language */
+  label: string;
+  dir: "ltr" | "rtl";
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { code: "en", label: "English", dir: "ltr" },
+  { code: "fr", label: "Français", dir: "ltr" },
+];
+
+export const DEFAULT_LOCALE: Locale = "en";
@@ -0,0 +1,450 @@
+// English UI strings. Every other locale falls back to these, key by key.
+// Placeholders in braces ({name}) are filled in by `t`.
+
+export const en = {
+  "language.label": "Language",
+
+  "topic.all": "All Topics",
+  "topic.HIV Self-Testing": "HIV Self-Testing",
+  "topic.PrEP": "PrEP",
+  "topic.Reproductive Health": "Reproductive Health",
+
+  "difficulty.easy": "Easy",
+  "difficulty.medium": "Medium",
+  "difficulty.hard": "Hard",
+  "difficulty.adaptive": "Adaptive",
+
+  "index.seoTitle": "Play HIV & PrEP Trivia | Learn While You Play",
+  "index.seoDescription": "Interactive trivia on HIV self-testing, PrEP, and reproductive health. Choose difficulty, earn points, and climb the leaderboard.",
+  "index.title": "Learn HIV & Reproductive Health Through Play",
+  "index.intro": "Join the yFit ideathon challenge experience: a fast, fun trivia game to boost awareness of HIV self-testing, PrEP, and reproductive health.",
+  "index.start": "Start Trivia",
+  "index.learnMore": "Learn More",
+  "index.joinLive": "Join a live quiz",
+  "index.hostLive": "Host a workshop",
+
+  "notFound.title": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+
+  "game.seoTitle": "Health Quest — HIV, PrEP & Reproductive Health Trivia",
+  "game.seoDescription": "Health Quest: mixed-topic trivia on HIV self-testing, PrEP, and reproductive health. Pick a difficulty, learn fast, and climb the leaderboard.",
+  "game.title": "Health Quest — HIV, PrEP & Reproductive Health Trivia",
+  "game.subtitle": "Learn by playing. Choose your path and test your knowledge.",
+  "game.soundOn": "Sound: On",
+  "game.soundOff": "Sound: Off",
+  "game.home": "Home",
+
+  "setup.title": "Get Ready",
+  "setup.description": "Set your name, topic and difficulty.",
+  "setup.playerName": "Player name",
+  "setup.playerNamePlaceholder": "e.g., Ada",
+  "setup.newPlayer": "New player…",
+  "setup.mode": "Mode",
+  "setup.modeQuiz": "Quiz",
+  "setup.modeAdaptive": "Adaptive",
+  "setup.modePractice": "Practice",
+  "setup.adaptiveHint": "Questions get harder after a correct answer and easier after a miss. Each one scores at its own difficulty.",
+  "setup.practiceHint": "Questions you missed or are due to review come first. Practice games aren’t saved to the leaderboard.",
+  "setup.topic": "Topic",
+  "setup.topicPlaceholder": "Select topic",
+  "setup.difficulty": "Difficulty",
+  "setup.difficultyPlaceholder": "Select difficulty",
+  "setup.startingDifficulty": "Starting difficulty",
+  "setup.summary": "{count} questions • {points} pts each",
+  "setup.practiceSummary": "{count} questions • {due} due for review",
+  "setup.adaptiveSummary": "{count} questions • difficulty adapts as you go",
+  "setup.timed": "Timed mode",
+  "setup.timedHint": "{seconds}s per question • faster answers earn a speed bonus",
+  "setup.start": "Start game",
+  "setup.loadingBanks": "Loading questions…",
+  "setup.nameRequired": "Enter your name",
+  "setup.nameRequiredHint": "We’ll use it on the leaderboard.",
+  "setup.noQuestions": "No questions yet",
+  "setup.noQuestionsHint": "There are no {difficulty} questions for {topic}.",
+  "setup.groupPrompt": "Playing in a group?",
+  "setup.groupLink": "Take turns in hot-seat mode",
+
+  "howTo.title": "How it works",
+  "howTo.description": "Answer questions to earn points and learn.",
+  "howTo.topics": "• Pick one topic for a focused session, or mix HIV self-testing, PrEP, and reproductive health.",
+  "howTo.difficulty": "• Select difficulty to adjust challenge and points, or choose Adaptive mode to let it follow your answers.",
+  "howTo.streaks": "• Answer 3 in a row for ×1.5 points, 5 in a row for ×2 — but a broken streak costs points. Every 5th question is a bonus round.",
+  "howTo.practice": "• Practice mode brings back the questions you missed, spacing out the ones you know, so the facts stick.",
+  "howTo.leaderboard": "• Answer up to 10 questions, then save your score to the local leaderboard.",
+
+  "banks.title": "Question banks",
+  "banks.description": "{count} questions available. Add more from a JSON file.",
+  "banks.openEditor": "Open editor",
+  "banks.questionCount": "{count} questions",
+  "banks.bundled": "bundled",
+  "banks.remove": "Remove",
+  "banks.imported": "Imported {count} questions",
+  "banks.nothingImported": "Nothing imported",
+  "banks.problemsFound": "{count} problem(s) found in {file}.",
+  "banks.problems": "{name}: {count} problem(s)",
+
+  "play.questionOf": "Question {number} of {total}",
+  "play.score": "Score: {score}",
+  "play.next": "Next",
+  "play.finish": "Finish",
+  "play.correct": "Correct!",
+  "play.correctFallback": "Great job!",
+  "play.wrong": "Not quite",
+  "play.wrongFallback": "You’ve got this next time.",
+  "play.correctPoints": "Correct! +{points} pts",
+  "play.partlyRight": "Partly right +{points} pts",
+  "play.streakTag": "{count} in a row ×{multiplier}",
+  "play.streakLost": "{title} Streak lost (−{penalty})",
+  "play.streak": "Streak: {count}",
+  "play.bonusRound": "Bonus round ×2",
+  "play.timeUp": "Time’s up!",
+  "play.secondsLeft": "{seconds}s left",
+
+  "result.title": "Great job, {name}!",
+  "result.finalScore": "Your final score is {score}.",
+  "result.playAgain": "Play again",
+  "result.replay": "Same questions again",
+  "result.backHome": "Back to home",
+  "result.placement": "Your placement",
+  "result.points": "{score} pts",
+  "result.breakdown": "How you scored",
+  "result.breakdownBase": "Correct answers",
+  "result.breakdownStreak": "Streak multipliers",
+  "result.breakdownSpeed": "Speed bonus",
+  "result.breakdownBonus": "Bonus rounds",
+  "result.breakdownPenalty": "Broken streaks",
+  "result.breakdownTotal": "Total",
+  "result.bestStreak": "Best streak: {count}",
+  "result.difficultyPath": "Your difficulty path",
+  "result.difficultyPeak": "Peak: {difficulty}",
+  "result.difficultyPathHint": "Red marks a missed question.",
+  "result.practiceNote": "Practice game — your answers update what comes up next time, but the score isn’t saved to the leaderboard.",
+
+  "review.title": "Review your answers",
+  "review.summary": "{missed} of {total} missed",
+  "review.missedOnly": "Only missed",
+  "review.noneMissed": "Nothing missed — every answer was correct.",
+  "review.yourAnswer": "Your answer:",
+  "review.correctAnswer": "Correct answer:",
+  "review.correct": "Correct",
+  "review.wrong": "Wrong",
+  "review.timeout": "Time ran out",
+  "review.skipped": "Skipped",
+
+  "leaderboard.title": "Leaderboard",
+  "leaderboard.anyDifficulty": "Any difficulty",
+  "leaderboard.anyTopic": "Any topic",
+  "leaderboard.today": "Today",
+  "leaderboard.week": "This week",
+  "leaderboard.allTime": "All time",
+  "leaderboard.accuracy": "{percent}% correct",
+  "leaderboard.empty": "No scores yet for this selection.",
+  "leaderboard.viewAll": "See full leaderboard",
+  "leaderboard.loading": "Loading scores…",
+  "leaderboard.queued": "Score saved offline",
+  "leaderboard.queuedHint": "It will be sent to the shared leaderboard when you’re back online.",
+  "leaderboard.submitFailed": "Could not save your score",
+
+  "leaderboardPage.seoTitle": "Leaderboard — Health Quest",
+  "leaderboardPage.seoDescription": "Every Health Quest score saved on this device, with search, sorting and per-player history.",
+  "leaderboardPage.title": "Leaderboard",
+  "leaderboardPage.subtitle": "{count} games saved on this device",
+  "leaderboardPage.play": "Play",
+  "leaderboardPage.search": "Search players",
+  "leaderboardPage.player": "Player",
+  "leaderboardPage.accuracy": "Accuracy",
+  "leaderboardPage.duration": "Time",
+  "leaderboardPage.date": "Date",
+  "leaderboardPage.score": "Score",
+  "leaderboardPage.previous": "Previous",
+  "leaderboardPage.next": "Next",
+  "leaderboardPage.playerSummary": "{games} games • best {best} pts • {accuracy}% average accuracy",
+
+  "teams.mode": "Team mode",
+  "teams.modeHint": "Play for a team; your scores also count towards its total",
+  "teams.team": "Team",
+  "teams.namePlaceholder": "e.g., Red House",
+  "teams.nameRequired": "Team name required",
+  "teams.nameRequiredHint": "Enter the team you're playing for, or turn team mode off.",
+  "teams.playedFor": "Points added to {team}.",
+  "teams.standingsLink": "See team standings",
+  "teams.playersTab": "Players",
+  "teams.teamsTab": "Teams",
+  "teams.search": "Search teams or players",
+  "teams.members": "Players",
+  "teams.games": "Games",
+  "teams.best": "Best",
+  "teams.average": "Average",
+  "teams.total": "Total",
+  "teams.empty": "No team scores yet. Turn on team mode before a game to play for a team.",
+
+  "pwa.offlineReady": "Ready to play offline",
+  "pwa.offlineReadyHint": "The game and its question banks are saved on this device.",
+  "pwa.updateReady": "A new version is available",
+  "pwa.updateReadyHint": "Reload to update. Finish your current game first.",
+  "pwa.reload": "Reload",
+
+  "display.label": "Display settings",
+  "display.highContrast": "High contrast",
+  "display.reducedMotion": "Reduce motion",
+  "a11y.keysHint": "Press 1 to {count} to answer, then Enter for the next question.",
+  "a11y.correctAnswerWas": "The correct answer is: {answer}.",
+
+  "narration.label": "Read aloud",
+  "narration.hint": "Reads each question, its options and the explanation out loud",
+  "narration.voice": "Voice",
+  "narration.defaultVoice": "Default voice",
+  "narration.rate": "Speed",
+  "narration.rateValue": "{rate}× speed",
+  "narration.noVoice": "This device has no voice for this language; the default voice will be used.",
+  "narration.option": "Option {number}: {option}",
+  "narration.statement": "Statement {number}: {statement}",
+  "narration.replay": "Read aloud again",
+
+  "questionTypes.trueFalsePrompt": "True or false?",
+  "questionTypes.multiSelectPrompt": "Select all that apply.",
+  "questionTypes.orderingPrompt": "Put the steps in the right order.",
+  "questionTypes.mythFactPrompt": "Myth or fact? Sort each statement.",
+  "questionTypes.true": "True",
+  "questionTypes.false": "False",
+  "questionTypes.myth": "Myth",
+  "questionTypes.fact": "Fact",
+  "questionTypes.check": "Check answer",
+  "questionTypes.moveUp": "Move “{step}” up",
+  "questionTypes.moveDown": "Move “{step}” down",
+  "questionTypes.rightOrder": "The right order:",
+  "questionTypes.statementOf": "Statement {number} of {total}",
+  "questionTypes.swipeHint": "Swipe towards Myth or Fact, or tap a button",
+  "questionTypes.swipeKeys": "Use the arrow keys: towards Myth or towards Fact.",
+  "questionTypes.partlyRight": "Partly right",
+  "questionTypes.noAnswer": "No answer",
+
+  "media.zoom": "Enlarge image: {alt}",
+  "media.zoomTitle": "Question image",
+  "media.unavailable": "Image not available offline. It shows: {alt}",
+
+  "challenge.from": "Challenge from {name}",
+  "challenge.received": "You’ve been challenged",
+  "challenge.beat": "Beat {score} points. You get the same questions, in the same order.",
+  "challenge.sameGame": "You get the same questions, in the same order, as the person who sent the link.",
+  "challenge.missing": "{count} of the questions come from a question bank this device doesn’t have, so this challenge can’t be played here.",
+  "challenge.unavailable": "The questions for this challenge couldn’t be loaded. Check your connection and reload the page.",
+  "challenge.leave": "Play your own game instead",
+  "challenge.share": "Challenge a friend",
+  "challenge.shareTitle": "Health Quest challenge",
+  "challenge.shareText": "I scored {score} points on Health Quest. Can you beat me?",
+  "challenge.copied": "Challenge link copied",
+  "challenge.copiedHint": "Send it to a friend: they get the same questions in the same order.",
+  "challenge.copyFailed": "Couldn’t copy the link",
+  "challenge.resultTitle": "Challenge result",
+  "challenge.you": "You",
+  "challenge.challenger": "Challenger",
+  "challenge.won": "You win the challenge!",
+  "challenge.lost": "Not this time. Try the same questions again?",
+  "challenge.tied": "It’s a tie!",
+  "daily.mode": "Daily challenge",
+  "daily.hint": "Today’s questions are the same for everyone and mix every topic and difficulty. One timed attempt per player; a new set arrives at midnight.",
+  "daily.summary": "{count} questions • the same for everyone today",
+  "daily.alreadyPlayed": "You’ve taken today’s challenge",
+  "daily.alreadyPlayedHint": "It’s one attempt per player per day. Come back tomorrow for a new set.",
+  "daily.unavailable": "Today’s questions couldn’t be loaded, so the daily challenge isn’t available right now. Check your connection and reload the page; your attempt hasn’t been used.",
+  "daily.tab": "Daily",
+  "daily.boardTitle": "Today’s challenge",
+  "daily.empty": "No one has taken this day’s challenge yet.",
+  "daily.today": "Today",
+  "daily.previousDay": "Previous day",
+  "daily.nextDay": "Next day",
+  "daily.calendar": "Daily challenges",
+  "daily.calendarHint": "Highlighted days are the ones you took the daily challenge",
+  "daily.streak": "Current streak: {count}",
+
+  "profile.link": "Profile",
+  "profile.seoTitle": "Player profile — Health Quest",
+  "profile.seoDescription": "Lifetime progress for players on this device: games played, accuracy by topic, best scores and mastered questions.",
+  "profile.title": "Player profiles",
+  "profile.subtitle": "Progress saved on this device",
+  "profile.choose": "Choose a player",
+  "profile.create": "Add player",
+  "profile.delete": "Delete profile",
+  "profile.deleteTitle": "Delete {name}?",
+  "profile.deleteDescription": "Their stats and practice progress on this device will be lost. Leaderboard scores are kept.",
+  "profile.cancel": "Cancel",
+  "profile.empty": "No players yet. Add one here, or just play a game — a profile is created for each new name.",
+  "profile.noneSelected": "Choose a player to see their progress.",
+  "profile.gamesPlayed": "Games played",
+  "profile.accuracy": "Accuracy",
+  "profile.mastered": "Questions mastered",
+  "profile.daysPlayed": "Days played",
+  "profile.games": "Games",
+  "profile.byTopic": "Accuracy by topic",
+  "profile.byTopicHint": "Share of answers correct, in percent",
+  "profile.activity": "Activity",
+  "profile.activityHint": "Games finished over the last {days} days",
+  "profile.bestScores": "Best scores",
+
+  "achievements.title": "Badges",
+  "achievements.progress": "{count} of {total} unlocked",
+  "achievements.unlocked": "New badges unlocked: {count}",
+  "achievements.unlockedOn": "Unlocked {date}",
+  "achievements.firstGame.title": "First steps",
+  "achievements.firstGame.description": "Finish your first game.",
+  "achievements.perfectRound.title": "Flawless",
+  "achievements.perfectRound.description": "Answer every question in a game correctly.",
+  "achievements.perfectHard.title": "Expert",
+  "achievements.perfectHard.description": "Get a perfect game on Hard.",
+  "achievements.streakFive.title": "On fire",
+  "achievements.streakFive.description": "Answer 5 questions in a row correctly.",
+  "achievements.speedster.title": "Quick thinker",
+  "achievements.speedster.description": "Earn 50 speed bonus points in one timed game.",
+  "achievements.climber.title": "Climber",
+  "achievements.climber.description": "Reach and answer a Hard question in an adaptive game.",
+  "achievements.allSelfTesting.title": "Self-testing scholar",
+  "achievements.allSelfTesting.description": "Answer every HIV self-testing question at least once.",
+  "achievements.allPrep.title": "PrEP pro",
+  "achievements.allPrep.description": "Answer every PrEP question at least once.",
+  "achievements.allReproductive.title": "Health explorer",
+  "achievements.allReproductive.description": "Answer every reproductive health question at least once.",
+  "achievements.dayStreakFive.title": "Habit builder",
+  "achievements.dayStreakFive.description": "Play on 5 days in a row.",
+  "achievements.tenGames.title": "Regular",
+  "achievements.tenGames.description": "Finish 10 games.",
+  "achievements.tenMastered.title": "Know-it-all",
+  "achievements.tenMastered.description": "Master 10 questions in practice.",
+
+  "hotseat.seoTitle": "Hot-seat — Health Quest",
+  "hotseat.seoDescription": "Take turns on one device: 2 to 8 players answer HIV, PrEP and reproductive health questions and compare scores.",
+  "hotseat.title": "Hot-seat",
+  "hotseat.subtitle": "Take turns on one device",
+  "hotseat.solo": "Solo game",
+  "hotseat.players": "Players",
+  "hotseat.playersHint": "{min} to {max} players, in turn order.",
+  "hotseat.playerPlaceholder": "Player {number}",
+  "hotseat.addPlayer": "Add player",
+  "hotseat.removePlayer": "Remove player",
+  "hotseat.setupHint": "Everyone plays the same topic and difficulty.",
+  "hotseat.questionsPerPlayer": "Questions per player",
+  "hotseat.available": "{count} questions available",
+  "hotseat.tooFew": "Add at least {min} players",
+  "hotseat.tooMany": "At most {max} players can play",
+  "hotseat.duplicate": "Each player needs a different name",
+  "hotseat.notEnoughQuestions": "There aren’t enough questions to give each of the {players} players one.",
+  "hotseat.turnOf": "Round {number} of {total}",
+  "hotseat.passTo": "Pass the device to {name}",
+  "hotseat.startTurn": "I’m {name} — start",
+  "hotseat.yourTurn": "{name}, it’s your turn",
+  "hotseat.resultTitle": "{name} wins!",
+  "hotseat.tie": "It’s a tie: {names}!",
+  "hotseat.resultHint": "Every player’s score has been saved to the leaderboard.",
+  "hotseat.bestStreak": "Best streak",
+
+  "live.error": "Something went wrong with the live quiz",
+  "live.disconnected": "Lost connection to the quiz relay. Check that it’s running and that you’re on the same network.",
+  "live.noRoom": "No quiz with that code",
+  "live.nameTaken": "Someone in this quiz already has that name",
+  "live.hostLeft": "The host ended the quiz",
+
+  "host.seoTitle": "Host a live quiz — Health Quest",
+  "host.seoDescription": "Run a live HIV, PrEP and reproductive health quiz for a workshop: players answer on their phones.",
+  "host.title": "Host a live quiz",
+  "host.subtitle": "Players join on their phones with a room code",
+  "host.setupTitle": "Quiz settings",
+  "host.setupHint": "Start the relay on this laptop first: npm run live:relay",
+  "host.questionCount": "Questions",
+  "host.openRoom": "Open room",
+  "host.joinAt": "Join at {url}",
+  "host.playersJoined": "{count} players joined",
+  "host.closeRoom": "Close room",
+  "host.start": "Start quiz",
+  "host.room": "Room {code}",
+  "host.answered": "{count} of {total} answered",
+  "host.reveal": "Reveal answer",
+  "host.newQuiz": "New quiz",
+
+  "join.seoTitle": "Join a live quiz — Health Quest",
+  "join.seoDescription": "Enter the room code from your facilitator to play along.",
+  "join.title": "Join a live quiz",
+  "join.playingAs": "Playing as {name} in room {code}",
+  "join.formTitle": "Enter the room code",
+  "join.formHint": "Your facilitator shows it on their screen.",
+  "join.code": "Room code",
+  "join.join": "Join",
+  "join.missing": "Enter the room code and your name",
+  "join.waitingTitle": "You’re in!",
+  "join.waitingHint": "Waiting for the host to start…",
+  "join.answered": "Answer locked in. Waiting for the others…",
+  "join.standing": "You’re #{rank} with {score} pts",
+  "join.endTitle": "Quiz over",
+
+  "editor.seoTitle": "Question Editor — Health Quest",
+  "editor.seoDescription": "Create, edit and export Health Quest trivia questions without touching code.",
+  "editor.title": "Question Editor",
+  "editor.subtitle": "Build a question bank, preview it, and export it as JSON.",
+  "editor.play": "Play",
+  "editor.home": "Home",
+  "editor.bankTitle": "Bank",
+  "editor.bankDescription": "{count} questions • saved in this browser",
+  "editor.newQuestion": "New question",
+  "editor.editQuestion": "Edit question",
+  "editor.export": "Export JSON",
+  "editor.reset": "Reset to built-in",
+  "editor.skewTitle": "Answers bunch up in one position",
+  "editor.duplicate": "Duplicate",
+  "editor.delete": "Delete",
+  "editor.added": "Question added",
+  "editor.saved": "Question saved",
+  "editor.id": "Id",
+  "editor.idPlaceholder": "e.g., prep-m-4",
+  "editor.idRequired": "Give the question a unique id",
+  "editor.idTaken": "Another question already uses this id",
+  "editor.type": "Type",
+  "editor.typeLabel.choice": "Multiple choice",
+  "editor.typeLabel.trueFalse": "True or false",
+  "editor.typeLabel.multiSelect": "Select all that apply",
+  "editor.typeLabel.ordering": "Put in order",
+  "editor.typeLabel.mythFact": "Myth or fact",
+  "editor.typeHint.choice": "Mark the correct option with the radio button.",
+  "editor.typeHint.trueFalse": "Write a statement and say whether it’s true.",
+  "editor.typeHint.multiSelect": "Tick every correct option.",
+  "editor.typeHint.ordering": "List the steps in the right order; players see them shuffled.",
+  "editor.typeHint.mythFact": "Tick the statements that are facts; the rest are myths.",
+  "editor.topic": "Topic",
+  "editor.difficulty": "Difficulty",
+  "editor.question": "Question",
+  "editor.textRequired": "Write the question",
+  "editor.imageUrl": "Image URL (optional)",
+  "editor.imageAlt": "Image description",
+  "editor.imageAltPlaceholder": "What the image shows",
+  "editor.imageAltRequired": "Describe the image for players who can’t see it",
+  "editor.answer": "Answer",
+  "editor.answerRequired": "Pick the correct option",
+  "editor.markedRequired": "Tick at least one correct option",
+  "editor.items.option": "Options",
+  "editor.items.step": "Steps",
+  "editor.items.statement": "Statements",
+  "editor.item.option": "Option {number}",
+  "editor.item.step": "Step {number}",
+  "editor.item.statement": "Statement {number}",
+  "editor.addItem.option": "Add option",
+  "editor.addItem.step": "Add step",
+  "editor.addItem.statement": "Add statement",
+  "editor.minItems.option": "Add at least {count} options",
+  "editor.minItems.step": "Add at least {count} steps",
+  "editor.minItems.statement": "Add at least one statement",
+  "editor.emptyItems.option": "Options can’t be empty",
+  "editor.emptyItems.step": "Steps can’t be empty",
+  "editor.emptyItems.statement": "Statements can’t be empty",
+  "editor.optionCorrect": "Option {number} is correct",
+  "editor.statementFact": "Statement {number} is a fact",
+  "editor.moveUp": "Move step {number} up",
+  "editor.moveDown": "Move step {number} down",
+  "editor.remove": "Remove",
+  "editor.explanation": "Explanation (optional)",
+  "editor.add": "Add to bank",
+  "editor.save": "Save changes",
+  "editor.previewTitle": "Preview — exactly as players see it",
+  "editor.previewText": "Your question text",
+  "editor.previewExplanation": "Explanation: {explanation}",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Partial<Record<MessageKey, string>>;
@@ -0,0 +1,446 @@
+import type { Messages } from "./en";
+
+export const fr: Messages = {
+  "language.label": "Langue",
+
+  "topic.all": "Tous les thèmes",
+  "topic.HIV Self-Testing": "Autotest du VIH",
+  "topic.PrEP": "PrEP",
+  "topic.Reproductive Health": "Santé reproductive",
+
+  "difficulty.easy": "Facile",
+  "difficulty.medium": "Moyen",
+  "difficulty.hard": "Difficile",
+  "difficulty.adaptive": "Adaptatif",
+
+  "index.seoTitle": "Quiz VIH & PrEP | Apprendre en jouant",
+  "index.seoDescription": "Un quiz interactif sur l’autotest du VIH, la PrEP et la santé reproductive. Choisissez la difficulté, gagnez des points et grimpez au classement.",
+  "index.title": "Apprendre le VIH et la santé reproductive en jouant",
+  "index.intro": "Rejoignez l’expérience de l’idéathon yFit : un quiz rapide et amusant pour mieux connaître l’autotest du VIH, la PrEP et la santé reproductive.",
+  "index.start": "Commencer le quiz",
+  "index.learnMore": "En savoir plus",
+  "index.joinLive": "Rejoindre un quiz en direct",
+  "index.hostLive": "Animer un atelier",
+
+  "notFound.title": "Oups ! Page introuvable",
+  "notFound.home": "Retour à l’accueil",
+
+  "game.seoTitle": "Health Quest — Quiz VIH, PrEP et santé reproductive",
+  "game.seoDescription": "Health Quest : un quiz sur l’autotest du VIH, la PrEP et la santé reproductive. Choisissez une difficulté, apprenez vite et grimpez au classement.",
+  "game.title": "Health Quest — Quiz VIH, PrEP et santé reproductive",
+  "game.subtitle": "Apprenez en jouant. Choisissez votre parcours et testez vos connaissances.",
+  "game.soundOn": "Son : activé",
+  "game.soundOff": "Son : coupé",
+  "game.home": "Accueil",
+
+  "setup.title": "Prêt ?",
+  "setup.description": "Indiquez votre nom, le thème et la difficulté.",
+  "setup.playerName": "Nom du joueur",
+  "setup.playerNamePlaceholder": "ex. : Ada",
+  "setup.newPlayer": "Nouveau joueur…",
+  "setup.mode": "Mode",
+  "setup.modeQuiz": "Quiz",
+  "setup.modeAdaptive": "Adaptatif",
+  "setup.modePractice": "Entraînement",
+  "setup.adaptiveHint": "Les questions deviennent plus difficiles après une bonne réponse et plus faciles après une erreur. Chacune rapporte les points de sa difficulté.",
+  "setup.practiceHint": "Les questions ratées ou à revoir passent en premier. Les parties d’entraînement ne sont pas enregistrées au classement.",
+  "setup.topic": "Thème",
+  "setup.topicPlaceholder": "Choisir un thème",
+  "setup.difficulty": "Difficulté",
+  "setup.difficultyPlaceholder": "Choisir la difficulté",
+  "setup.startingDifficulty": "Difficulté de départ",
+  "setup.summary": "{count} questions • {points} pts chacune",
+  "setup.practiceSummary": "{count} questions • {due} à revoir",
+  "setup.adaptiveSummary": "{count} questions • la difficulté s’adapte en cours de partie",
+  "setup.timed": "Mode chronométré",
+  "setup.timedHint": "{seconds} s par question • répondre vite rapporte un bonus",
+  "setup.start": "Commencer",
+  "setup.loadingBanks": "Chargement des questions…",
+  "setup.nameRequired": "Entrez votre nom",
+  "setup.nameRequiredHint": "Il apparaîtra dans le classement.",
+  "setup.noQuestions": "Pas encore de questions",
+  "setup.noQuestionsHint": "Aucune question « {difficulty} » pour {topic}.",
+  "setup.groupPrompt": "Vous jouez en groupe ?",
+  "setup.groupLink": "Jouez chacun votre tour en mode relais",
+
+  "howTo.title": "Comment jouer",
+  "howTo.description": "Répondez aux questions pour gagner des points et apprendre.",
+  "howTo.topics": "• Choisissez un thème pour une séance ciblée, ou mélangez autotest du VIH, PrEP et santé reproductive.",
+  "howTo.difficulty": "• La difficulté change le défi et les points ; en mode adaptatif, elle suit vos réponses.",
+  "howTo.streaks": "• 3 bonnes réponses d’affilée valent ×1,5, 5 d’affilée ×2 — mais une série brisée coûte des points. Une question sur 5 est une manche bonus.",
+  "howTo.practice": "• Le mode entraînement repropose les questions ratées et espace celles que vous connaissez, pour bien retenir.",
+  "howTo.leaderboard": "• Répondez à 10 questions au plus, puis enregistrez votre score dans le classement local.",
+
+  "banks.title": "Banques de questions",
+  "banks.description": "{count} questions disponibles. Ajoutez-en depuis un fichier JSON.",
+  "banks.openEditor": "Ouvrir l’éditeur",
+  "banks.questionCount": "{count} questions",
+  "banks.bundled": "intégrée",
+  "banks.remove": "Retirer",
+  "banks.imported": "{count} questions importées",
+  "banks.nothingImported": "Rien n’a été importé",
+  "banks.problemsFound": "{count} problème(s) dans {file}.",
+  "banks.problems": "{name} : {count} problème(s)",
+
+  "play.questionOf": "Question {number} sur {total}",
+  "play.score": "Score : {score}",
+  "play.next": "Suivante",
+  "play.finish": "Terminer",
+  "play.correct": "Bonne réponse !",
+  "play.correctFallback": "Bravo !",
+  "play.wrong": "Pas tout à fait",
+  "play.wrongFallback": "Vous y arriverez la prochaine fois.",
+  "play.correctPoints": "Bonne réponse ! +{points} pts",
+  "play.partlyRight": "En partie juste +{points} pts",
+  "play.streakTag": "{count} d’affilée ×{multiplier}",
+  "play.streakLost": "{title} Série perdue (−{penalty})",
+  "play.streak": "Série : {count}",
+  "play.bonusRound": "Manche bonus ×2",
+  "play.timeUp": "Temps écoulé !",
+  "play.secondsLeft": "{seconds} s restantes",
+
+  "result.title": "Bravo, {name} !",
+  "result.finalScore": "Votre score final est de {score}.",
+  "result.playAgain": "Rejouer",
+  "result.replay": "Mêmes questions",
+  "result.backHome": "Retour à l’accueil",
+  "result.placement": "Votre classement",
+  "result.points": "{score} pts",
+  "result.breakdown": "Détail de votre score",
+  "result.breakdownBase": "Bonnes réponses",
+  "result.breakdownStreak": "Multiplicateurs de série",
+  "result.breakdownSpeed": "Bonus rapidité",
+  "result.breakdownBonus": "Manches bonus",
+  "result.breakdownPenalty": "Séries brisées",
+  "result.breakdownTotal": "Total",
+  "result.bestStreak": "Meilleure série : {count}",
+  "result.difficultyPath": "Votre parcours de difficulté",
+  "result.difficultyPeak": "Sommet : {difficulty}",
+  "result.difficultyPathHint": "En rouge : question ratée.",
+  "result.practiceNote": "Partie d’entraînement — vos réponses décident des prochaines questions, mais le score n’est pas enregistré au classement.",
+
+  "review.title": "Revoir vos réponses",
+  "review.summary": "{missed} ratée(s) sur {total}",
+  "review.missedOnly": "Seulement les ratées",
+  "review.noneMissed": "Aucune erreur — toutes les réponses étaient justes.",
+  "review.yourAnswer": "Votre réponse :",
+  "review.correctAnswer": "Bonne réponse :",
+  "review.correct": "Juste",
+  "review.wrong": "Faux",
+  "review.timeout": "Temps écoulé",
+  "review.skipped": "Passée",
+
+  "leaderboard.title": "Classement",
+  "leaderboard.anyDifficulty": "Toutes difficultés",
+  "leaderboard.anyTopic": "Tous thèmes",
+  "leaderboard.today": "Aujourd’hui",
+  "leaderboard.week": "Cette semaine",
+  "leaderboard.allTime": "Depuis toujours",
+  "leaderboard.accuracy": "{percent} % de réussite",
+  "leaderboard.empty": "Aucun score pour cette sélection.",
+  "leaderboard.viewAll": "Voir tout le classement",
+  "leaderboard.loading": "Chargement des scores…",
+  "leaderboard.queued": "Score enregistré hors ligne",
+  "leaderboard.queuedHint": "Il sera envoyé au classement partagé dès le retour de la connexion.",
+  "leaderboard.submitFailed": "Impossible d’enregistrer votre score",
+
+  "leaderboardPage.seoTitle": "Classement — Health Quest",
+  "leaderboardPage.seoDescription": "Tous les scores Health Quest enregistrés sur cet appareil, avec recherche, tri et historique par joueur.",
+  "leaderboardPage.title": "Classement",
+  "leaderboardPage.subtitle": "{count} parties enregistrées sur cet appareil",
+  "leaderboardPage.play": "Jouer",
+  "leaderboardPage.search": "Rechercher un joueur",
+  "leaderboardPage.player": "Joueur",
+  "leaderboardPage.accuracy": "Réussite",
+  "leaderboardPage.duration": "Durée",
+  "leaderboardPage.date": "Date",
+  "leaderboardPage.score": "Score",
+  "leaderboardPage.previous": "Précédent",
+  "leaderboardPage.next": "Suivant",
+  "leaderboardPage.playerSummary": "{games} parties • meilleur score {best} pts • {accuracy} % de réussite moyenne",
+
+  "teams.mode": "Mode équipe",
+  "teams.modeHint": "Jouez pour une équipe ; vos scores comptent aussi pour son total",
+  "teams.team": "Équipe",
+  "teams.namePlaceholder": "ex. : Maison Rouge",
+  "teams.nameRequired": "Nom d’équipe requis",
+  "teams.nameRequiredHint": "Saisissez l’équipe pour laquelle vous jouez, ou désactivez le mode équipe.",
+  "teams.playedFor": "Points ajoutés à {team}.",
+  "teams.standingsLink": "Voir le classement des équipes",
+  "teams.playersTab": "Joueurs",
+  "teams.teamsTab": "Équipes",
+  "teams.search": "Rechercher des équipes ou des joueurs",
+  "teams.members": "Joueurs",
+  "teams.games": "Parties",
+  "teams.best": "Meilleur",
+  "teams.average": "Moyenne",
+  "teams.total": "Total",
+  "teams.empty": "Aucun score d’équipe pour l’instant. Activez le mode équipe avant une partie pour jouer pour une équipe.",
+
+  "pwa.offlineReady": "Prêt à jouer hors ligne",
+  "pwa.offlineReadyHint": "Le jeu et ses banques de questions sont enregistrés sur cet appareil.",
+  "pwa.updateReady": "Une nouvelle version est disponible",
+  "pwa.updateReadyHint": "Rechargez pour mettre à jour. Terminez d’abord votre partie en cours.",
+  "pwa.reload": "Recharger",
+
+  "display.label": "Paramètres d’affichage",
+  "display.highContrast": "Contraste élevé",
+  "display.reducedMotion": "Réduire les animations",
+  "a11y.keysHint": "Appuyez sur 1 à {count} pour répondre, puis sur Entrée pour la question suivante.",
+  "a11y.correctAnswerWas": "La bonne réponse est : {answer}.",
+
+  "narration.label": "Lecture à voix haute",
+  "narration.hint": "Lit chaque question, ses réponses et l’explication à voix haute",
+  "narration.voice": "Voix",
+  "narration.defaultVoice": "Voix par défaut",
+  "narration.rate": "Vitesse",
+  "narration.rateValue": "Vitesse ×{rate}",
+  "narration.noVoice": "Cet appareil n’a pas de voix pour cette langue ; la voix par défaut sera utilisée.",
+  "narration.option": "Réponse {number} : {option}",
+  "narration.statement": "Affirmation {number} : {statement}",
+  "narration.replay": "Relire à voix haute",
+
+  "questionTypes.trueFalsePrompt": "Vrai ou faux ?",
+  "questionTypes.multiSelectPrompt": "Cochez toutes les bonnes réponses.",
+  "questionTypes.orderingPrompt": "Remettez les étapes dans le bon ordre.",
+  "questionTypes.mythFactPrompt": "Mythe ou réalité ? Classez chaque affirmation.",
+  "questionTypes.true": "Vrai",
+  "questionTypes.false": "Faux",
+  "questionTypes.myth": "Mythe",
+  "questionTypes.fact": "Réalité",
+  "questionTypes.check": "Valider",
+  "questionTypes.moveUp": "Monter « {step} »",
+  "questionTypes.moveDown": "Descendre « {step} »",
+  "questionTypes.rightOrder": "Le bon ordre :",
+  "questionTypes.statementOf": "Affirmation {number} sur {total}",
+  "questionTypes.swipeHint": "Glissez vers Mythe ou Réalité, ou touchez un bouton",
+  "questionTypes.swipeKeys": "Utilisez les flèches : vers Mythe ou vers Réalité.",
+  "questionTypes.partlyRight": "En partie juste",
+  "questionTypes.noAnswer": "Pas de réponse",
+
+  "media.zoom": "Agrandir l’image : {alt}",
+  "media.zoomTitle": "Image de la question",
+  "media.unavailable": "Image indisponible hors ligne. Elle montre : {alt}",
+
+  "challenge.from": "Défi de {name}",
+  "challenge.received": "On vous lance un défi",
+  "challenge.beat": "Battez {score} points. Vous aurez les mêmes questions, dans le même ordre.",
+  "challenge.sameGame": "Vous aurez les mêmes questions, dans le même ordre, que la personne qui a envoyé le lien.",
+  "challenge.missing": "{count} des questions viennent d’une banque de questions absente de cet appareil : ce défi ne peut pas être joué ici.",
+  "challenge.unavailable": "Les questions de ce défi n’ont pas pu être chargées. Vérifiez votre connexion et rechargez la page.",
+  "challenge.leave": "Jouer ma propre partie",
+  "challenge.share": "Lancer un défi",
+  "challenge.shareTitle": "Défi Health Quest",
+  "challenge.shareText": "J’ai marqué {score} points sur Health Quest. Saurez-vous faire mieux ?",
+  "challenge.copied": "Lien du défi copié",
+  "challenge.copiedHint": "Envoyez-le : la personne aura les mêmes questions dans le même ordre.",
+  "challenge.copyFailed": "Impossible de copier le lien",
+  "challenge.resultTitle": "Résultat du défi",
+  "challenge.you": "Vous",
+  "challenge.challenger": "Adversaire",
+  "challenge.won": "Vous remportez le défi !",
+  "challenge.lost": "Pas cette fois. Retenter avec les mêmes questions ?",
+  "challenge.tied": "Égalité !",
+  "daily.mode": "Défi du jour",
+  "daily.hint": "Les questions du jour sont les mêmes pour tout le monde et mêlent tous les thèmes et niveaux. Une seule tentative chronométrée par joueur ; nouvelle série à minuit.",
+  "daily.summary": "{count} questions • les mêmes pour tous aujourd’hui",
+  "daily.alreadyPlayed": "Vous avez déjà relevé le défi du jour",
+  "daily.alreadyPlayedHint": "Une seule tentative par joueur et par jour. Revenez demain pour une nouvelle série.",
+  "daily.unavailable": "Les questions du jour n’ont pas pu être chargées : le défi du jour n’est pas disponible pour le moment. Vérifiez votre connexion et rechargez la page ; votre tentative n’a pas été utilisée.",
+  "daily.tab": "Défi du jour",
+  "daily.boardTitle": "Défi d’aujourd’hui",
+  "daily.empty": "Personne n’a encore relevé le défi de ce jour.",
+  "daily.today": "Aujourd’hui",
+  "daily.previousDay": "Jour précédent",
+  "daily.nextDay": "Jour suivant",
+  "daily.calendar": "Défis du jour",
+  "daily.calendarHint": "Les jours en surbrillance sont ceux où vous avez relevé le défi du jour",
+  "daily.streak": "Série en cours : {count}",
+
+  "profile.link": "Profil",
+  "profile.seoTitle": "Profil joueur — Health Quest",
+  "profile.seoDescription": "La progression des joueurs sur cet appareil : parties jouées, réussite par thème, meilleurs scores et questions maîtrisées.",
+  "profile.title": "Profils joueurs",
+  "profile.subtitle": "Progression enregistrée sur cet appareil",
+  "profile.choose": "Choisir un joueur",
+  "profile.create": "Ajouter un joueur",
+  "profile.delete": "Supprimer le profil",
+  "profile.deleteTitle": "Supprimer {name} ?",
+  "profile.deleteDescription": "Ses statistiques et sa progression d’entraînement sur cet appareil seront perdues. Les scores du classement sont conservés.",
+  "profile.cancel": "Annuler",
+  "profile.empty": "Aucun joueur pour l’instant. Ajoutez-en un ici, ou lancez simplement une partie — un profil est créé pour chaque nouveau nom.",
+  "profile.noneSelected": "Choisissez un joueur pour voir sa progression.",
+  "profile.gamesPlayed": "Parties jouées",
+  "profile.accuracy": "Réussite",
+  "profile.mastered": "Questions maîtrisées",
+  "profile.daysPlayed": "Jours joués",
+  "profile.games": "Parties",
+  "profile.byTopic": "Réussite par thème",
+  "profile.byTopicHint": "Part de bonnes réponses, en pourcentage",
+  "profile.activity": "Activité",
+  "profile.activityHint": "Parties terminées ces {days} derniers jours",
+  "profile.bestScores": "Meilleurs scores",
+
+  "achievements.title": "Badges",
+  "achievements.progress": "{count} sur {total} débloqués",
+  "achievements.unlocked": "Nouveaux badges débloqués : {count}",
+  "achievements.unlockedOn": "Débloqué le {date}",
+  "achievements.firstGame.title": "Premiers pas",
+  "achievements.firstGame.description": "Terminez votre première partie.",
+  "achievements.perfectRound.title": "Sans faute",
+  "achievements.perfectRound.description": "Répondez juste à toutes les questions d’une partie.",
+  "achievements.perfectHard.title": "Expert",
+  "achievements.perfectHard.description": "Faites un sans-faute en difficulté Difficile.",
+  "achievements.streakFive.title": "En feu",
+  "achievements.streakFive.description": "Enchaînez 5 bonnes réponses.",
+  "achievements.speedster.title": "Esprit vif",
+  "achievements.speedster.description": "Gagnez 50 points de rapidité dans une partie chronométrée.",
+  "achievements.climber.title": "Grimpeur",
+  "achievements.climber.description": "Atteignez et réussissez une question Difficile en mode adaptatif.",
+  "achievements.allSelfTesting.title": "As de l’autotest",
+  "achievements.allSelfTesting.description": "Répondez au moins une fois à chaque question sur l’autotest du VIH.",
+  "achievements.allPrep.title": "Pro de la PrEP",
+  "achievements.allPrep.description": "Répondez au moins une fois à chaque question sur la PrEP.",
+  "achievements.allReproductive.title": "Explorateur santé",
+  "achievements.allReproductive.description": "Répondez au moins une fois à chaque question de santé reproductive.",
+  "achievements.dayStreakFive.title": "Bonne habitude",
+  "achievements.dayStreakFive.description": "Jouez 5 jours d’affilée.",
+  "achievements.tenGames.title": "Habitué",
+  "achievements.tenGames.description": "Terminez 10 parties.",
+  "achievements.tenMastered.title": "Incollable",
+  "achievements.tenMastered.description": "Maîtrisez 10 questions en entraînement.",
+
+  "hotseat.seoTitle": "Mode relais — Health Quest",
+  "hotseat.seoDescription": "Jouez à tour de rôle sur un seul appareil : de 2 à 8 joueurs répondent à des questions sur le VIH, la PrEP et la santé reproductive.",
+  "hotseat.title": "Mode relais",
+  "hotseat.subtitle": "Chacun son tour sur le même appareil",
+  "hotseat.solo": "Partie solo",
+  "hotseat.players": "Joueurs",
+  "hotseat.playersHint": "De {min} à {max} joueurs, dans l’ordre de passage.",
+  "hotseat.playerPlaceholder": "Joueur {number}",
+  "hotseat.addPlayer": "Ajouter un joueur",
+  "hotseat.removePlayer": "Retirer le joueur",
+  "hotseat.setupHint": "Tout le monde joue avec le même thème et la même difficulté.",
+  "hotseat.questionsPerPlayer": "Questions par joueur",
+  "hotseat.available": "{count} questions disponibles",
+  "hotseat.tooFew": "Ajoutez au moins {min} joueurs",
+  "hotseat.tooMany": "{max} joueurs au maximum",
+  "hotseat.duplicate": "Chaque joueur doit avoir un nom différent",
+  "hotseat.notEnoughQuestions": "Il n’y a pas assez de questions pour en donner une à chacun des {players} joueurs.",
+  "hotseat.turnOf": "Manche {number} sur {total}",
+  "hotseat.passTo": "Passez l’appareil à {name}",
+  "hotseat.startTurn": "Je suis {name} — c’est parti",
+  "hotseat.yourTurn": "{name}, à vous de jouer",
+  "hotseat.resultTitle": "{name} gagne !",
+  "hotseat.tie": "Égalité : {names} !",
+  "hotseat.resultHint": "Le score de chaque joueur a été enregistré au classement.",
+  "hotseat.bestStreak": "Meilleure série",
+
+  "live.error": "Un problème est survenu avec le quiz en direct",
+  "live.disconnected": "Connexion au relais perdue. Vérifiez qu’il fonctionne et que vous êtes sur le même réseau.",
+  "live.noRoom": "Aucun quiz avec ce code",
+  "live.nameTaken": "Quelqu’un dans ce quiz porte déjà ce nom",
+  "live.hostLeft": "L’animateur a terminé le quiz",
+
+  "host.seoTitle": "Animer un quiz en direct — Health Quest",
+  "host.seoDescription": "Animez un quiz en direct sur le VIH, la PrEP et la santé reproductive : les joueurs répondent sur leur téléphone.",
+  "host.title": "Animer un quiz en direct",
+  "host.subtitle": "Les joueurs rejoignent avec un code depuis leur téléphone",
+  "host.setupTitle": "Paramètres du quiz",
+  "host.setupHint": "Lancez d’abord le relais sur cet ordinateur : npm run live:relay",
+  "host.questionCount": "Questions",
+  "host.openRoom": "Ouvrir la salle",
+  "host.joinAt": "Rejoindre sur {url}",
+  "host.playersJoined": "{count} joueurs connectés",
+  "host.closeRoom": "Fermer la salle",
+  "host.start": "Lancer le quiz",
+  "host.room": "Salle {code}",
+  "host.answered": "{count} réponses sur {total}",
+  "host.reveal": "Afficher la réponse",
+  "host.newQuiz": "Nouveau quiz",
+
+  "join.seoTitle": "Rejoindre un quiz en direct — Health Quest",
+  "join.seoDescription": "Saisissez le code de salle donné par votre animateur pour jouer.",
+  "join.title": "Rejoindre un quiz en direct",
+  "join.playingAs": "{name} dans la salle {code}",
+  "join.formTitle": "Saisissez le code de salle",
+  "join.formHint": "Votre animateur l’affiche sur son écran.",
+  "join.code": "Code de salle",
+  "join.join": "Rejoindre",
+  "join.missing": "Saisissez le code de salle et votre nom",
+  "join.waitingTitle": "C’est bon !",
+  "join.waitingHint": "En attente du lancement par l’animateur…",
+  "join.answered": "Réponse enregistrée. En attente des autres…",
+  "join.standing": "Vous êtes n°{rank} avec {score} pts",
+  "join.endTitle": "Quiz terminé",
+
+  "editor.seoTitle": "Éditeur de questions — Health Quest",
+  "editor.seoDescription": "Créez, modifiez et exportez des questions Health Quest sans toucher au code.",
+  "editor.title": "Éditeur de questions",
+  "editor.subtitle": "Constituez une banque de questions, prévisualisez-la et exportez-la en JSON.",
+  "editor.play": "Jouer",
+  "editor.home": "Accueil",
+  "editor.bankTitle": "Banque",
+  "editor.bankDescription": "{count} questions • enregistrées dans ce navigateur",
+  "editor.newQuestion": "Nouvelle question",
+  "editor.editQuestion": "Modifier la question",
+  "editor.export": "Exporter en JSON",
+  "editor.reset": "Revenir aux questions intégrées",
+  "editor.skewTitle": "Les bonnes réponses sont souvent à la même place",
+  "editor.duplicate": "Dupliquer",
+  "editor.delete": "Supprimer",
+  "editor.added": "Question ajoutée",
+  "editor.saved": "Question enregistrée",
+  "editor.id": "Identifiant",
+  "editor.idPlaceholder": "ex. : prep-m-4",
+  "editor.idRequired": "Donnez un identifiant unique à la question",
+  "editor.idTaken": "Une autre question utilise déjà cet identifiant",
+  "editor.type": "Type",
+  "editor.typeLabel.choice": "Choix multiple",
+  "editor.typeLabel.trueFalse": "Vrai ou faux",
+  "editor.typeLabel.multiSelect": "Plusieurs bonnes réponses",
+  "editor.typeLabel.ordering": "Remettre dans l’ordre",
+  "editor.typeLabel.mythFact": "Mythe ou réalité",
+  "editor.typeHint.choice": "Indiquez la bonne option avec le bouton radio.",
+  "editor.typeHint.trueFalse": "Écrivez une affirmation et indiquez si elle est vraie.",
+  "editor.typeHint.multiSelect": "Cochez toutes les bonnes options.",
+  "editor.typeHint.ordering": "Listez les étapes dans le bon ordre ; les joueurs les voient mélangées.",
+  "editor.typeHint.mythFact": "Cochez les affirmations qui sont des faits ; les autres sont des mythes.",
+  "editor.topic": "Thème",
+  "editor.difficulty": "Difficulté",
+  "editor.question": "Question",
+  "editor.textRequired": "Rédigez la question",
+  "editor.imageUrl": "URL de l’image (facultatif)",
+  "editor.imageAlt": "Description de l’image",
+  "editor.imageAltPlaceholder": "Ce que montre l’image",
+  "editor.imageAltRequired": "Décrivez l’image pour les joueurs qui ne peuvent pas la voir",
+  "editor.answer": "Réponse",
+  "editor.answerRequired": "Choisissez la bonne option",
+  "editor.markedRequired": "Cochez au moins une bonne option",
+  "editor.items.option": "Options",
+  "editor.items.step": "Étapes",
+  "editor.items.statement": "Affirmations",
+  "editor.item.option": "Option {number}",
+  "editor.item.step": "Étape {number}",
+  "editor.item.statement": "Affirmation {number}",
+  "editor.addItem.option": "Ajouter une option",
+  "editor.addItem.step": "Ajouter une étape",
+  "editor.addItem.statement": "Ajouter une affirmation",
+  "editor.minItems.option": "Ajoutez au moins {count} options",
+  "editor.minItems.step": "Ajoutez au moins {count} étapes",
+  "editor.minItems.statement": "Ajoutez au moins une affirmation",
+  "editor.emptyItems.option": "Les options ne peuvent pas être vides",
+  "editor.emptyItems.step": "Les étapes ne peuvent pas être vides",
+  "editor.emptyItems.statement": "Les affirmations ne peuvent pas être vides",
+  "editor.optionCorrect": "L’option {number} est la bonne réponse",
+  "editor.statementFact": "L’affirmation {number} est un fait",
+  "editor.moveUp": "Monter l’étape {number}",
+  "editor.moveDown": "Descendre l’étape {number}",
+  "editor.remove": "Retirer",
+  "editor.explanation": "Explication (facultatif)",
+  "editor.add": "Ajouter à la banque",
+  "editor.save": "Enregistrer les modifications",
+  "editor.previewTitle": "Aperçu — exactement comme les joueurs le voient",
+  "editor.previewText": "Le texte de votre question",
+  "editor.previewExplanation": "Explication : {explanation}",
+};
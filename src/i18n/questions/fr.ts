@@ -0,0 +1,206 @@
+import type { QuestionTranslations } from "./types";
+
+export const fr: QuestionTranslations = {
+  "hivst-e-1": {
+    text: "Que permet l’autotest du VIH ?",
+    options: [
+      "Guérir le VIH à la maison",
+      "Donner son sang à la maison",
+      "Se tester soi-même pour le VIH en privé",
+      "Se vacciner contre le VIH",
+    ],
+    explanation: "L’autotest du VIH permet de se tester discrètement et en privé.",
+  },
+  "prep-e-1": {
+    text: "À quoi sert principalement la PrEP ?",
+    options: ["Soigner la grippe", "Baisser la tension", "Guérir le VIH", "Prévenir le VIH"],
+    explanation: "La prophylaxie pré-exposition (PrEP) réduit fortement le risque d’être infecté par le VIH.",
+  },
+  "rh-e-1": {
+    text: "Laquelle de ces méthodes est une contraception moderne ?",
+    options: ["L’ail", "Le préservatif", "Les douches froides", "Sauter des repas"],
+    explanation: "Le préservatif est une méthode moderne qui aide aussi à prévenir les IST, dont le VIH.",
+  },
+  "prep-e-2": {
+    text: "Que signifie PrEP ?",
+    options: [
+      "Prophylaxie pré-exposition",
+      "Protection post-exposition",
+      "Prévention primaire des épidémies",
+      "Pilules préventives d’urgence",
+    ],
+    explanation: "PrEP = prophylaxie pré-exposition (Pre-Exposure Prophylaxis).",
+  },
+  "rh-e-2": {
+    text: "Quelle méthode aide à prévenir à la fois la grossesse et les IST ?",
+    options: ["La pilule", "Le stérilet", "La méthode du calendrier", "Le préservatif"],
+    explanation: "Seul le préservatif protège à la fois des IST et de la grossesse.",
+  },
+  "hivst-e-2": {
+    text: "Où peut-on généralement obtenir un autotest du VIH ?",
+    options: [
+      "Seulement en ligne",
+      "Seulement à l’hôpital",
+      "En pharmacie, en clinique ou auprès d’associations",
+      "Nulle part",
+    ],
+    explanation: "Les autotests sont largement disponibles en pharmacie, en clinique et via des programmes communautaires (selon le pays).",
+  },
+  "hivst-e-3": {
+    text: "L’autotest du VIH est-il confidentiel ?",
+    options: ["Oui", "Non", "Seulement la nuit", "Seulement pour les adultes"],
+    explanation: "L’autotest est conçu pour être privé et confidentiel.",
+  },
+  "rh-e-3": {
+    text: "Que faire si un préservatif se déchire pendant un rapport ?",
+    options: [
+      "Ne rien faire",
+      "Réutiliser le préservatif",
+      "Boire de l’eau",
+      "Envisager une contraception d’urgence et demander conseil pour un dépistage IST/VIH",
+    ],
+    explanation: "La contraception d’urgence peut réduire le risque de grossesse ; un dépistage et des conseils sur la PEP/PrEP peuvent être utiles — demandez conseil.",
+  },
+  "prep-e-3": {
+    text: "La PrEP est plus efficace lorsqu’elle est prise…",
+    options: ["Une fois par mois", "Seulement après un rapport", "Comme prescrit, régulièrement", "Seulement quand on y pense"],
+    explanation: "La régularité est essentielle à son efficacité.",
+  },
+  "rh-e-4": {
+    text: "Quel est le signe d’un consentement sain ?",
+    options: ["Le silence", "Un oui clair et enthousiaste", "La pression", "La confusion"],
+    explanation: "Le consentement est clair, éclairé et librement donné.",
+  },
+
+  "hivst-m-1": {
+    text: "Après un autotest réactif (positif), que faut-il faire ?",
+    options: [
+      "Commencer un traitement tout de suite sans consultation",
+      "Confirmer par un test en centre de santé et se faire suivre",
+      "L’ignorer si l’on se sent bien",
+      "Refaire l’autotest toutes les heures",
+    ],
+    explanation: "Un autotest réactif doit être confirmé en clinique ou en laboratoire avant de commencer un suivi.",
+  },
+  "prep-m-1": {
+    text: "Pour être la plus efficace, la PrEP doit être prise…",
+    options: ["Seulement quand on y pense", "Comme prescrit, régulièrement", "Une fois par mois", "Seulement après un rapport"],
+    explanation: "La PrEP orale quotidienne ou les schémas définis par un soignant demandent de la régularité.",
+  },
+  "rh-m-1": {
+    text: "Quel symptôme justifie un dépistage des IST ?",
+    options: ["Le hoquet", "La peau sèche", "Les éternuements", "Des pertes inhabituelles"],
+    explanation: "Des pertes inhabituelles peuvent signaler une IST. Le dépistage et le traitement sont importants.",
+  },
+  "prep-m-2": {
+    text: "Combien de temps environ après le début de la PrEP orale quotidienne la protection est-elle optimale pour les rapports anaux réceptifs ?",
+    options: ["1 à 2 jours", "Environ 7 jours", "Environ 30 jours", "Environ 90 jours"],
+    explanation: "Les recommandations indiquent environ 7 jours pour les rapports anaux réceptifs ; demandez un avis personnalisé à votre soignant.",
+  },
+  "prep-m-3": {
+    text: "Si vous oubliez une prise quotidienne de PrEP, que faut-il faire en général ?",
+    options: [
+      "Doubler la dose suivante",
+      "La prendre dès que vous y pensez le même jour",
+      "Arrêter complètement la PrEP",
+      "Sauter toute la semaine",
+    ],
+    explanation: "Prenez la dose oubliée le jour même si possible, sans doubler. Vérifiez avec votre soignant.",
+  },
+  "hivst-m-2": {
+    text: "Les autotests du VIH sur fluide buccal détectent principalement…",
+    options: ["L’ARN du VIH", "Les cellules CD4", "Les anticorps anti-VIH", "La charge virale"],
+    explanation: "La plupart des autotests détectent les anticorps.",
+  },
+  "rh-m-2": {
+    text: "Quel lubrifiant peut être utilisé sans risque avec un préservatif en latex ?",
+    options: ["À base d’eau ou de silicone", "À base d’huile", "La vaseline", "L’huile de cuisine"],
+    explanation: "Les lubrifiants à base d’huile peuvent abîmer le latex ; utilisez-en un à base d’eau ou de silicone.",
+  },
+  "rh-m-3": {
+    text: "Les options de contraception d’urgence comprennent…",
+    options: ["Les antibiotiques", "Les compléments vitaminés", "Les tisanes", "Les pilules et le stérilet au cuivre"],
+    explanation: "Les pilules de contraception d’urgence et le stérilet au cuivre sont des options reconnues.",
+  },
+  "prep-m-4": {
+    text: "Sous PrEP, un dépistage VIH/IST de routine est généralement recommandé…",
+    options: ["Tous les jours", "Tous les 2 ans", "Tous les 3 mois", "Jamais"],
+    explanation: "Un suivi trimestriel est courant ; suivez les recommandations locales.",
+  },
+  "hivst-m-3": {
+    text: "Si votre autotest est négatif mais que vous avez pris un risque récemment, vous devez…",
+    options: [
+      "Refaire un test après la période fenêtre",
+      "Considérer que vous êtes immunisé",
+      "Arrêter définitivement les tests",
+      "Partager votre kit",
+    ],
+    explanation: "Refaites un test après la période fenêtre adaptée ou consultez un soignant.",
+  },
+
+  "hivst-h-1": {
+    text: "Quelle période fenêtre correspond le mieux aux autotests du VIH sur fluide buccal ?",
+    options: ["1 à 2 jours", "Environ 3 mois", "1 an", "Il n’y a pas de période fenêtre"],
+    explanation: "Les tests buccaux peuvent mettre jusqu’à 3 mois à détecter les anticorps après une exposition.",
+  },
+  "prep-h-1": {
+    text: "Quelle option est une forme de PrEP à action prolongée disponible dans certains pays ?",
+    options: ["La perfusion de vitamine C", "Le sirop à base de plantes", "L’injection de pénicilline", "L’injection de cabotégravir"],
+    explanation: "Les injections de cabotégravir à action prolongée sont une option de PrEP approuvée dans certains pays.",
+  },
+  "rh-h-1": {
+    text: "La contraception d’urgence est la plus efficace lorsqu’elle est prise dans les…",
+    options: ["2 semaines", "1 mois", "120 heures", "Il n’y a pas de limite"],
+    explanation: "Elle est plus efficace dans les 120 heures (5 jours), et d’autant plus qu’elle est prise tôt.",
+  },
+  "pep-h-1": {
+    text: "La PEP (prophylaxie post-exposition) doit être commencée dans les…",
+    options: ["72 heures", "1 semaine", "1 mois", "N’importe quand"],
+    explanation: "La PEP doit commencer le plus tôt possible, dans les 72 heures suivant l’exposition.",
+  },
+  "prep-h-2": {
+    text: "Après les doses d’initiation, la PrEP au cabotégravir à action prolongée est généralement administrée…",
+    options: ["Tous les 6 mois", "Tous les 2 mois", "Tous les jours", "Une fois par an"],
+    explanation: "Les injections d’entretien sont souvent faites tous les 2 mois — suivez les protocoles locaux.",
+  },
+  "hivst-h-2": {
+    text: "Les tests de laboratoire de 4e génération (antigène/anticorps) détectent généralement le VIH en…",
+    options: ["Le jour même", "6 à 12 mois", "10 ans", "18 à 45 jours"],
+    explanation: "Les tests de 4e génération détectent l’antigène p24 et les anticorps, ce qui raccourcit la période fenêtre.",
+  },
+  "rh-h-2": {
+    text: "Quelles méthodes contraceptives ont le plus faible taux d’échec en utilisation courante ?",
+    options: [
+      "Le retrait",
+      "Les méthodes d’observation du cycle seules",
+      "La contraception réversible de longue durée (stérilet/implant)",
+      "Les spermicides seuls",
+    ],
+    explanation: "Les stérilets et les implants sont très efficaces en utilisation courante.",
+  },
+  "prep-h-2b": {
+    text: "Quel examen suit-on souvent pour la fonction rénale avec certains schémas de PrEP ?",
+    options: ["Créatinine/DFGe", "Hémoglobine A1c", "Anticorps hépatiques", "Calcium"],
+    explanation: "Les soignants surveillent souvent la fonction rénale (créatinine/DFGe) avec certains médicaments de PrEP.",
+  },
+  "hivst-h-3": {
+    text: "Indétectable = Intransmissible (I=I) signifie…",
+    options: [
+      "Une personne dont la charge virale reste indétectable ne transmet pas le VIH par voie sexuelle",
+      "Le VIH disparaît",
+      "Plus besoin de se faire dépister",
+      "Le préservatif n’est jamais nécessaire",
+    ],
+    explanation: "Une suppression virale durable sous traitement antirétroviral empêche la transmission sexuelle.",
+  },
+  "rh-h-3": {
+    text: "La double protection consiste à…",
+    options: [
+      "Utiliser le préservatif avec une autre méthode contraceptive efficace",
+      "Utiliser deux préservatifs à la fois",
+      "Prendre des pilules à double dose",
+      "Éviter complètement les rapports",
+    ],
+    explanation: "Préservatif + autre méthode aide à prévenir les IST et la grossesse.",
+  },
+};
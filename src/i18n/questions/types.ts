@@ -0,0 +1,15 @@
+export interface QuestionTranslation {
+  text: string;
+  /** Must list the options in the same order as the English question */
+  options?: string[];
+  /** Ordering questions: the steps, in the same order as the English */
+  steps?: string[];
+  /** Myth-or-fact questions: the statements, in the same order as the English */
+  statements?: string[];
+  /** Replaces the alt text of the question's image */
+  imageAlt?: string;
+  explanation?: string;
+}
+
+/** Translations keyed by `Question.id` */
+export type QuestionTranslations = Record<string, QuestionTranslation>;
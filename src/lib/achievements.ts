@@ -0,0 +1,78 @@
+// Achievements: declarative rules checked at the end of every game. Each rule
+// sees the finished game and the player's profile and practice history with
+// that game already counted; once earned, an achievement stays on the profile.
+
+import type { Category, Question } from "@/data/questions";
+import { isMissed } from "@/lib/answers";
+import { masteredCount, type Knowledge } from "@/lib/practice";
+import { dayStreak, type GameSummary, type PlayerProfile } from "@/lib/profiles";
+
+export interface AchievementContext {
+  game: GameSummary;
+  profile: PlayerProfile;
+  knowledge: Knowledge;
+  /** Every question the player could have been asked */
+  pool: Question[];
+  now: Date;
+}
+
+export type AchievementId =
+  | "firstGame"
+  | "perfectRound"
+  | "perfectHard"
+  | "streakFive"
+  | "speedster"
+  | "climber"
+  | "allSelfTesting"
+  | "allPrep"
+  | "allReproductive"
+  | "dayStreakFive"
+  | "tenGames"
+  | "tenMastered";
+
+export interface Achievement {
+  id: AchievementId;
+  earned: (ctx: AchievementContext) => boolean;
+}
+
+const perfect = ({ game }: AchievementContext) => game.answers.length > 0 && !game.answers.some(isMissed);
+
+/** The player has been asked every question in `category` at least once, in any mode. */
+const answeredEvery = (category: Category) => ({ pool, knowledge }: AchievementContext) => {
+  const questions = pool.filter(q => q.category === category);
+  return questions.length > 0 && questions.every(q => knowledge[q.id]);
+};
+
+/** In display order; titles and descriptions live under `achievements.<id>` in the messages. */
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: "firstGame", earned: ({ profile }) => profile.gamesPlayed >= 1 },
+  { id: "perfectRound", earned: perfect },
+  { id: "perfectHard", earned: ctx => ctx.game.difficulty === "hard" && perfect(ctx) },
+  { id: "streakFive", earned: ({ game }) => game.state.bestStreak >= 5 },
+  { id: "speedster", earned: ({ game }) => game.state.breakdown.speed >= 50 },
+  {
+    id: "climber",
+    earned: ({ game }) => game.difficulty === "adaptive" && game.answers.some(a => a.question.difficulty === "hard" && !isMissed(a)),
+  },
+  { id: "allSelfTesting", earned: answeredEvery("HIV Self-Testing") },
+  { id: "allPrep", earned: answeredEvery("PrEP") },
+  { id: "allReproductive", earned: answeredEvery("Reproductive Health") },
+  { id: "dayStreakFive", earned: ({ profile, now }) => dayStreak(profile, now) >= 5 },
+  { id: "tenGames", earned: ({ profile }) => profile.gamesPlayed >= 10 },
+  { id: "tenMastered", earned: ({ knowledge }) => masteredCount(knowledge) >= 10 },
+];
+
+/** Achievements earned by this game that the player didn't already have. */
+export function evaluateAchievements(ctx: AchievementContext): AchievementId[] {
+  return ACHIEVEMENTS.filter(a => !ctx.profile.achievements[a.id] && a.earned(ctx)).map(a => a.id);
+}
+
+/** Records newly earned achievements on the context's profile. */
+export function awardAchievements(ctx: AchievementContext): { profile: PlayerProfile; unlocked: AchievementId[] } {
+  const unlocked = evaluateAchievements(ctx);
+  const at = ctx.now.toISOString();
+  return {
+    unlocked,
+    profile: { ...ctx.profile, achievements: { ...ctx.profile.achievements, ...Object.fromEntries(unlocked.map(id => [id, at])) } },
+  };
+}
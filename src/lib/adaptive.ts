@@ -0,0 +1,30 @@
+// Adaptive games: the next question's difficulty steps up after a correct
+// answer and down after a miss, within the tiers of DIFFICULTIES.
+
+import { DIFFICULTIES, type Difficulty, type Question } from "@/data/questions";
+import { shuffle, type Rng } from "@/lib/random";
+
+export const ADAPTIVE_GAME_LENGTH = 10;
+
+export function nextDifficulty(current: Difficulty, correct: boolean): Difficulty {
+  const i = DIFFICULTIES.indexOf(current) + (correct ? 1 : -1);
+  return DIFFICULTIES[Math.min(Math.max(i, 0), DIFFICULTIES.length - 1)];
+}
+
+/**
+ * A random question not yet asked at `difficulty`, or at the nearest tier that
+ * still has one. Null when the pool is used up.
+ */
+export function pickAdaptive(pool: Question[], difficulty: Difficulty, asked: Question[], rng: Rng = Math.random): Question | null {
+  const askedIds = new Set(asked.map(q => q.id));
+  const remaining = pool.filter(q => !askedIds.has(q.id));
+  const target = DIFFICULTIES.indexOf(difficulty);
+  const distance = (tier: Difficulty) => Math.abs(DIFFICULTIES.indexOf(tier) - target);
+  // DIFFICULTIES runs easiest first and the sort is stable, so ties go to the easier tier
+  const byDistance = [...DIFFICULTIES].sort((a, b) => distance(a) - distance(b));
+  for (const tier of byDistance) {
+    const [question] = shuffle(remaining.filter(q => q.difficulty === tier), rng);
+    if (question) return question;
+  }
+  return null;
+}
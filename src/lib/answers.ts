@@ -0,0 +1,20 @@
+// What happened to each question in a finished (or running) game
+
+import type { Question } from "@/data/questions";
+import type { Response } from "@/lib/grading";
+
+export type AnswerOutcome = "correct" | "wrong" | "timeout" | "skipped";
+
+export interface AnswerRecord {
+  /** The question as asked, before localization */
+  question: Question;
+  /** What the player answered (see grading.ts); null when they didn't answer */
+  response: Response | null;
+  outcome: AnswerOutcome;
+  /** Net points from the scoring engine, after streaks and penalties */
+  points: number;
+}
+
+export function isMissed(record: AnswerRecord): boolean {
+  return record.outcome !== "correct";
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { QUESTIONS } from "@/data/questions";
+import { CHALLENGE_LENGTH, challengeQuestions, challengeUrl, parseChallenge, type Challenge } from "@/lib/challenge";
+
+const ORIGIN = "https://quest.example";
+
+/** Builds the link for `challenge` and reads it back the way the game page does */
+function roundTrip(challenge: Challenge): Challenge | null {
+  return parseChallenge(new URL(challengeUrl(challenge, ORIGIN)).searchParams);
+}
+
+describe("challenge links", () => {
+  it("round-trip the question ids, seed and settings", () => {
+    const challenge: Challenge = {
+      questions: QUESTIONS.slice(0, 3).map(q => q.id),
+      seed: 123456,
+      difficulty: "medium",
+      topic: "PrEP",
+      timed: true,
+      from: "Ama",
+      score: 140,
+    };
+    expect(roundTrip(challenge)).toEqual(challenge);
+  });
+
+  it("round-trip a link with only a seed and settings", () => {
+    const challenge: Challenge = { questions: [], seed: 42, difficulty: "easy", topic: "all", timed: false };
+    expect(challengeUrl(challenge, ORIGIN)).toBe(`${ORIGIN}/game?seed=42&difficulty=easy&topic=all`);
+    expect(roundTrip(challenge)).toEqual({ ...challenge, from: undefined, score: undefined });
+  });
+
+  it("rejects a link without a usable seed or settings", () => {
+    expect(parseChallenge(new URLSearchParams("difficulty=easy&topic=all"))).toBeNull();
+    expect(parseChallenge(new URLSearchParams("seed=-1&difficulty=easy&topic=all"))).toBeNull();
+    expect(parseChallenge(new URLSearchParams("seed=42&difficulty=impossible&topic=all"))).toBeNull();
+  });
+});
+
+describe("challengeQuestions", () => {
+  it("deals the listed questions in order, leaving out ones this device hasn't got", () => {
+    const [a, b, c] = QUESTIONS;
+    const challenge: Challenge = { questions: [c.id, "imported-1", a.id], seed: 1, difficulty: "easy", topic: "all", timed: false };
+    expect(challengeQuestions(challenge, [a, b, c], [a, b, c])).toEqual([c, a]);
+  });
+
+  it("deals the same questions from a seed whatever order the pool loaded in", () => {
+    const challenge: Challenge = { questions: [], seed: 7, difficulty: "easy", topic: "all", timed: false };
+    const dealt = challengeQuestions(challenge, [], QUESTIONS);
+    expect(dealt).toHaveLength(Math.min(CHALLENGE_LENGTH, QUESTIONS.filter(q => q.difficulty === "easy").length));
+    expect(dealt.every(q => q.difficulty === "easy")).toBe(true);
+    expect(challengeQuestions(challenge, [], [...QUESTIONS].reverse())).toEqual(dealt);
+  });
+});
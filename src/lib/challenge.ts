@@ -0,0 +1,72 @@
+// "Challenge a friend" links. A link carries the ids of the questions dealt and
+// the game's seed and settings, so whoever opens it gets the same questions with
+// the same option order, plus the challenger's score to compare against at the
+// end. Questions from a bank the friend hasn't got can't be played; the game
+// says so rather than dealing something else. A link with no ids (made by hand,
+// or from before ids were added) deals from its seed instead.
+
+import { CATEGORIES, DIFFICULTIES, type Category, type Difficulty, type Question, type Topic } from "@/data/questions";
+import { createRng, shuffle } from "@/lib/random";
+
+/** Questions in a seeded challenge, the same as a regular quiz */
+export const CHALLENGE_LENGTH = 10;
+
+export interface Challenge {
+  /** Question ids, in the order they were dealt; empty for a link that only has a seed */
+  questions: string[];
+  seed: number;
+  difficulty: Difficulty;
+  topic: Topic;
+  timed: boolean;
+  /** Who sent it and what they scored; missing from links made by hand */
+  from?: string;
+  score?: number;
+}
+
+export function challengeUrl(challenge: Challenge, origin = window.location.origin): string {
+  const params = new URLSearchParams({ seed: String(challenge.seed), difficulty: challenge.difficulty, topic: challenge.topic });
+  // Repeated rather than joined, since ids can contain any character
+  for (const id of challenge.questions) params.append("q", id);
+  if (challenge.timed) params.set("timed", "1");
+  if (challenge.from) params.set("from", challenge.from);
+  if (challenge.score !== undefined) params.set("score", String(challenge.score));
+  return `${origin}/game?${params}`;
+}
+
+/** The challenge in a /game URL's query, or null when there isn't a usable one. */
+export function parseChallenge(params: URLSearchParams): Challenge | null {
+  const seed = Number(params.get("seed"));
+  const difficulty = params.get("difficulty") as Difficulty;
+  const topic = params.get("topic") ?? "all";
+  const questions = params.getAll("q").filter(Boolean);
+  if (!params.get("seed") || !Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) return null;
+  if (!DIFFICULTIES.includes(difficulty)) return null;
+  if (topic !== "all" && !CATEGORIES.includes(topic as Category)) return null;
+
+  const score = Number(params.get("score"));
+  return {
+    questions,
+    seed,
+    difficulty,
+    topic: topic as Topic,
+    timed: params.get("timed") === "1",
+    from: params.get("from")?.trim() || undefined,
+    score: params.get("score") && Number.isFinite(score) ? Math.round(score) : undefined,
+  };
+}
+
+/**
+ * The questions a challenge deals: the ones it lists, in order, leaving out any
+ * `pool` hasn't got. A link with only a seed deals from `sharedPool`, the
+ * built-in and bundled questions, sorted so every device deals the same.
+ */
+export function challengeQuestions(challenge: Challenge, pool: Question[], sharedPool: Question[]): Question[] {
+  if (challenge.questions.length) {
+    const byId = new Map(pool.map(q => [q.id, q]));
+    return challenge.questions.flatMap(id => byId.get(id) ?? []);
+  }
+  const candidates = sharedPool
+    .filter(q => q.difficulty === challenge.difficulty && (challenge.topic === "all" || q.category === challenge.topic))
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  return shuffle(candidates, createRng(challenge.seed)).slice(0, CHALLENGE_LENGTH);
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { DIFFICULTIES, QUESTIONS } from "@/data/questions";
+import { DAILY_SIZE, dailySeed, dailySet } from "@/lib/daily";
+
+const ids = (day: string, pool = QUESTIONS) => dailySet(pool, day).map(q => q.id);
+
+describe("dailySet", () => {
+  it("deals the same questions for a day whatever order the pool loaded in", () => {
+    expect(ids("2026-10-19", [...QUESTIONS].reverse())).toEqual(ids("2026-10-19"));
+  });
+
+  it("deals a different set the next day", () => {
+    expect(ids("2026-10-20")).not.toEqual(ids("2026-10-19"));
+    expect(dailySeed("2026-10-20")).not.toBe(dailySeed("2026-10-19"));
+  });
+
+  it("deals DAILY_SIZE questions, easiest first", () => {
+    const set = dailySet(QUESTIONS, "2026-10-19");
+    expect(set).toHaveLength(DAILY_SIZE);
+    const levels = set.map(q => DIFFICULTIES.indexOf(q.difficulty));
+    expect(levels).toEqual([...levels].sort((a, b) => a - b));
+  });
+
+  it("deals the whole pool when it is smaller than a set", () => {
+    expect(ids("2026-10-19", QUESTIONS.slice(0, 4)).sort()).toEqual(QUESTIONS.slice(0, 4).map(q => q.id).sort());
+  });
+});
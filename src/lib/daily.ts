@@ -0,0 +1,25 @@
+// The daily challenge: one set of questions per calendar day, the same for
+// everyone who plays it that day, and one attempt each. Days are local, so
+// players in other time zones switch over to the next set at their midnight.
+
+import { DIFFICULTIES, type Question } from "@/data/questions";
+import { createRng, hashSeed, shuffle } from "@/lib/random";
+
+export const DAILY_SIZE = 10;
+
+/** Seeds both the questions and their option order for the day, keyed yyyy-MM-dd. */
+export function dailySeed(day: string): number {
+  return hashSeed(`daily:${day}`);
+}
+
+/**
+ * The day's questions, easiest first. Only deterministic across devices when
+ * `pool` is too, so leave imported banks out of it.
+ */
+export function dailySet(pool: Question[], day: string): Question[] {
+  // Sorted first so the deal doesn't depend on the order banks finished loading
+  const sorted = [...pool].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  return shuffle(sorted, createRng(dailySeed(day)))
+    .slice(0, DAILY_SIZE)
+    .sort((a, b) => DIFFICULTIES.indexOf(a.difficulty) - DIFFICULTIES.indexOf(b.difficulty));
+}
@@ -0,0 +1,43 @@
+// Display preferences that apply to the whole app through classes on <html>,
+// so they take effect before React renders and reach every page.
+
+export interface DisplaySettings {
+  highContrast: boolean;
+  /** Turns off hover scaling, the rank reveal, badge pops and other animations */
+  reducedMotion: boolean;
+}
+
+const DISPLAY_KEY = "yfit_display";
+
+const CLASSES: Record<keyof DisplaySettings, string> = {
+  highContrast: "high-contrast",
+  reducedMotion: "reduced-motion",
+};
+
+function systemDefaults(): DisplaySettings {
+  const query = (q: string) => typeof window !== "undefined" && !!window.matchMedia?.(q).matches;
+  return {
+    highContrast: query("(prefers-contrast: more)"),
+    reducedMotion: query("(prefers-reduced-motion: reduce)"),
+  };
+}
+
+/** Saved settings, falling back to the operating system's preferences for anything not chosen yet. */
+export function readDisplaySettings(): DisplaySettings {
+  try {
+    const raw = localStorage.getItem(DISPLAY_KEY);
+    return { ...systemDefaults(), ...(raw ? JSON.parse(raw) : {}) };
+  } catch {
+    return systemDefaults();
+  }
+}
+
+export function writeDisplaySettings(settings: DisplaySettings) {
+  localStorage.setItem(DISPLAY_KEY, JSON.stringify(settings));
+}
+
+export function applyDisplaySettings(settings: DisplaySettings, root = document.documentElement) {
+  for (const key of Object.keys(CLASSES) as (keyof DisplaySettings)[]) {
+    root.classList.toggle(CLASSES[key], settings[key]);
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { ChoiceQuestion, MultiSelectQuestion, MythFactQuestion, OrderingQuestion, TrueFalseQuestion } from "@/data/questions";
+import { correctResponse, gradeResponse, keyOptionCount, scrambledSteps } from "@/lib/grading";
+
+const base = { category: "PrEP", difficulty: "easy", text: "?" } as const;
+
+const choice: ChoiceQuestion = { ...base, id: "c", options: ["A", "B", "C", "D"], answerIndex: 2 };
+const trueFalse: TrueFalseQuestion = { ...base, id: "tf", type: "trueFalse", answer: false };
+const multiSelect: MultiSelectQuestion = { ...base, id: "ms", type: "multiSelect", options: ["A", "B", "C", "D"], answerIndexes: [3, 0] };
+const ordering: OrderingQuestion = { ...base, id: "o", type: "ordering", steps: ["First", "Second", "Third", "Fourth"] };
+const mythFact: MythFactQuestion = {
+  ...base,
+  id: "mf",
+  type: "mythFact",
+  statements: [{ text: "1", fact: true }, { text: "2", fact: false }, { text: "3", fact: true }],
+};
+
+describe("gradeResponse", () => {
+  it("gives full marks to the correct response for every type", () => {
+    for (const q of [choice, trueFalse, multiSelect, ordering, mythFact]) {
+      expect(gradeResponse(q, correctResponse(q))).toEqual({ correct: true, credit: 1 });
+    }
+    expect(correctResponse(multiSelect)).toEqual([0, 3]);
+  });
+
+  it("marks a timed-out question wrong", () => {
+    expect(gradeResponse(choice, null)).toEqual({ correct: false, credit: 0 });
+    expect(gradeResponse(ordering, [])).toEqual({ correct: false, credit: 0 });
+  });
+
+  it("gives no partial credit on choice and true/false questions", () => {
+    expect(gradeResponse(choice, [1])).toEqual({ correct: false, credit: 0 });
+    expect(gradeResponse(trueFalse, [0])).toEqual({ correct: false, credit: 0 });
+  });
+
+  it("lets each wrong pick cancel out a right one on multi-select", () => {
+    expect(gradeResponse(multiSelect, [3])).toEqual({ correct: false, credit: 0.5 });
+    expect(gradeResponse(multiSelect, [0, 1, 3])).toEqual({ correct: false, credit: 0.5 });
+    expect(gradeResponse(multiSelect, [0, 1, 2, 3])).toEqual({ correct: false, credit: 0 });
+  });
+
+  it("credits each step or statement in its right place", () => {
+    expect(gradeResponse(ordering, [0, 2, 1, 3])).toEqual({ correct: false, credit: 0.5 });
+    expect(gradeResponse(mythFact, [1, 1, 1])).toEqual({ correct: false, credit: 2 / 3 });
+  });
+});
+
+describe("scrambledSteps", () => {
+  it("is the same every time and never already solved", () => {
+    const order = scrambledSteps(ordering);
+    expect(scrambledSteps(ordering)).toEqual(order);
+    expect([...order].sort()).toEqual([0, 1, 2, 3]);
+    expect(order).not.toEqual([0, 1, 2, 3]);
+    expect(scrambledSteps({ ...ordering, steps: ["A", "B"] })).not.toEqual([0, 1]);
+  });
+});
+
+it("answers choice and true/false questions from the number keys only", () => {
+  expect([choice, trueFalse, multiSelect, ordering, mythFact].map(keyOptionCount)).toEqual([4, 2, 0, 0, 0]);
+});
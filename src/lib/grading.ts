@@ -0,0 +1,90 @@
+// Marking rules for each question type. Every answer is stored as a list of
+// numbers so records, scoring and review work the same way for all of them:
+//
+//   choice       [option picked]
+//   trueFalse    [0] for true, [1] for false (as if the options were True, False)
+//   multiSelect  options picked, ascending
+//   ordering     step indexes in the order the player put them
+//   mythFact     1 (fact) or 0 (myth) for each statement in turn
+//
+// An empty response means the clock ran out before the player answered.
+
+import { questionType, type OrderingQuestion, type Question } from "@/data/questions";
+import { hashSeed } from "@/lib/random";
+
+export type Response = number[];
+
+export interface Grade {
+  correct: boolean;
+  /** Share of the question the player got right, 0–1; only multi-part types give partial credit */
+  credit: number;
+}
+
+const WRONG: Grade = { correct: false, credit: 0 };
+
+function sameList(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((n, i) => n === b[i]);
+}
+
+function share(right: number, total: number): number {
+  return total ? Math.max(0, Math.min(1, right / total)) : 0;
+}
+
+/** The response that gets full marks. */
+export function correctResponse(question: Question): Response {
+  switch (question.type) {
+    case "trueFalse":
+      return [question.answer ? 0 : 1];
+    case "multiSelect":
+      return [...question.answerIndexes].sort((a, b) => a - b);
+    case "ordering":
+      return question.steps.map((_, i) => i);
+    case "mythFact":
+      return question.statements.map(s => (s.fact ? 1 : 0));
+    default:
+      return [question.answerIndex];
+  }
+}
+
+export function gradeResponse(question: Question, response: Response | null): Grade {
+  if (!response?.length) return WRONG;
+  const expected = correctResponse(question);
+  switch (questionType(question)) {
+    case "multiSelect": {
+      // Each wrong pick cancels out a right one, so ticking everything earns nothing
+      const picked = new Set(response);
+      const hits = expected.filter(i => picked.has(i)).length;
+      const credit = share(hits - (picked.size - hits), expected.length);
+      return { correct: sameList([...picked].sort((a, b) => a - b), expected), credit };
+    }
+    case "ordering":
+    case "mythFact": {
+      const credit = share(expected.filter((n, i) => response[i] === n).length, expected.length);
+      return { correct: credit === 1 && response.length === expected.length, credit };
+    }
+    default:
+      return response[0] === expected[0] ? { correct: true, credit: 1 } : WRONG;
+  }
+}
+
+/** Number keys 1–n answer these types with a single press; the others need their own controls. */
+export function keyOptionCount(question: Question): number {
+  switch (question.type) {
+    case "trueFalse":
+      return 2;
+    case undefined:
+    case "choice":
+      return question.options.length;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The order an ordering question's steps are shown in. Fixed per question so
+ * the card, narration and review all agree, and never already solved.
+ */
+export function scrambledSteps(question: OrderingQuestion): number[] {
+  const order = question.steps.map((_, i) => i).sort((a, b) => hashSeed(`${question.id}:${a}`) - hashSeed(`${question.id}:${b}`));
+  return order.length > 1 && order.every((n, i) => n === i) ? order.reverse() : order;
+}
@@ -0,0 +1,54 @@
+// Hot-seat games: several players share one device and take turns, each
+// answering their own question in rotation.
+
+import type { Question } from "@/data/questions";
+import type { AnswerRecord } from "@/lib/answers";
+import { playerKey } from "@/lib/players";
+import { shuffle, type Rng } from "@/lib/random";
+import { initialScore, type ScoreState } from "@/lib/scoring";
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+export const QUESTIONS_PER_PLAYER_OPTIONS = [3, 5, 10];
+
+export interface Seat {
+  name: string;
+  score: ScoreState;
+  answers: AnswerRecord[];
+  /** Time spent on this player's own turns */
+  durationMs: number;
+}
+
+export type PlayersIssue = "tooFew" | "tooMany" | "duplicate";
+
+/** Names must be non-empty once trimmed, within the player limits and distinct as playerKeys. */
+export function checkPlayers(names: string[]): PlayersIssue | null {
+  const keys = names.map(playerKey).filter(Boolean);
+  if (keys.length < MIN_PLAYERS) return "tooFew";
+  if (keys.length > MAX_PLAYERS) return "tooMany";
+  if (new Set(keys).size !== keys.length) return "duplicate";
+  return null;
+}
+
+export function createSeats(names: string[]): Seat[] {
+  return names.filter(n => n.trim()).map(n => ({ name: n.trim(), score: initialScore(), answers: [], durationMs: 0 }));
+}
+
+/**
+ * Questions for the whole game in turn order; turn `i` belongs to seat
+ * `i % seats`. Every player gets the same number of turns, fewer than asked
+ * for when the pool is too small, and nobody sees a question twice.
+ */
+export function dealQuestions(pool: Question[], seats: number, perPlayer: number, rng: Rng = Math.random): Question[] {
+  const turns = Math.min(perPlayer, Math.floor(pool.length / seats)) * seats;
+  return shuffle(pool, rng).slice(0, turns);
+}
+
+/** Seats by score, best first; equal scores share a rank. */
+export function rankSeats(seats: Seat[]): { seat: Seat; rank: number }[] {
+  const sorted = [...seats].sort((a, b) => b.score.total - a.score.total);
+  return sorted.map((seat, i) => ({
+    seat,
+    rank: sorted.findIndex(s => s.score.total === seat.score.total) + 1,
+  }));
+}
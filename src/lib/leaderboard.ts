@@ -0,0 +1,192 @@
+// Local leaderboard storage, migration and filtering
+
+import { startOfDay, startOfWeek } from "date-fns";
+import { DIFFICULTIES, type Difficulty, type Topic } from "@/data/questions";
+
+/** A fixed tier, or "adaptive" for games whose difficulty moved with the player's answers */
+export type BoardDifficulty = Difficulty | "adaptive";
+
+export const BOARD_DIFFICULTIES: BoardDifficulty[] = [...DIFFICULTIES, "adaptive"];
+
+export interface ScoreEntry {
+  name: string;
+  score: number;
+  /** ISO timestamp of when the game finished */
+  date: string;
+  /** null for entries saved before difficulty was recorded, and for daily challenges, which mix tiers */
+  difficulty: BoardDifficulty | null;
+  topic: Topic;
+  questionCount: number | null;
+  /** Share of questions answered correctly, 0–1 */
+  accuracy: number | null;
+  durationMs: number | null;
+  /** Team the player was playing for, if any */
+  team: string | null;
+  /** The day (yyyy-MM-dd) of the daily challenge this was, or null for any other game */
+  daily: string | null;
+}
+
+export type TimeWindow = "today" | "week" | "all";
+
+export interface LeaderboardFilter {
+  difficulty: BoardDifficulty | "any";
+  topic: Topic | "any";
+  window: TimeWindow;
+}
+
+export type SortKey = "score" | "date" | "accuracy";
+
+export interface TeamSummary {
+  /** As first seen; teams are grouped ignoring case and surrounding spaces */
+  team: string;
+  members: string[];
+  games: number;
+  total: number;
+  average: number;
+  bestScore: number;
+}
+
+export type TeamSortKey = "total" | "average";
+
+export interface PlayerSummary {
+  name: string;
+  games: ScoreEntry[];
+  bestScore: number;
+  /** Average over games that recorded accuracy; null when none did */
+  averageAccuracy: number | null;
+}
+
+export const DEFAULT_FILTER: LeaderboardFilter = { difficulty: "any", topic: "any", window: "all" };
+
+const LB_KEY = "yfit_leaderboard";
+const LB_VERSION_KEY = "yfit_leaderboard_version";
+const LB_VERSION = 4;
+// Enough history for an event organizer to look back over a whole session
+const LB_CAP = 500;
+
+/** Upgrades an entry written by any earlier version of the game. */
+export function migrateEntry(raw: Partial<ScoreEntry>): ScoreEntry {
+  return {
+    name: String(raw.name ?? ""),
+    score: Number(raw.score) || 0,
+    date: raw.date ?? new Date(0).toISOString(),
+    difficulty: BOARD_DIFFICULTIES.includes(raw.difficulty as BoardDifficulty) ? raw.difficulty : null,
+    topic: raw.topic ?? "all",
+    questionCount: raw.questionCount ?? null,
+    accuracy: raw.accuracy ?? null,
+    durationMs: raw.durationMs ?? null,
+    team: raw.team?.trim() || null,
+    daily: typeof raw.daily === "string" ? raw.daily : null,
+  };
+}
+
+function sortByScore(list: ScoreEntry[]): ScoreEntry[] {
+  return [...list].sort((a, b) => b.score - a.score);
+}
+
+export function readLeaderboard(): ScoreEntry[] {
+  try {
+    const raw = localStorage.getItem(LB_KEY);
+    const list: ScoreEntry[] = raw ? JSON.parse(raw).map(migrateEntry) : [];
+    if (Number(localStorage.getItem(LB_VERSION_KEY)) < LB_VERSION) writeLeaderboard(list);
+    return list;
+  } catch {
+    return [];
+  }
+}
+
+export function writeLeaderboard(list: ScoreEntry[]) {
+  localStorage.setItem(LB_KEY, JSON.stringify(list));
+  localStorage.setItem(LB_VERSION_KEY, String(LB_VERSION));
+}
+
+export function addEntry(entry: ScoreEntry) {
+  writeLeaderboard(sortByScore([...readLeaderboard(), entry]).slice(0, LB_CAP));
+}
+
+/** Entries are identified by player and finish time, which survive a round trip through a server. */
+export function entryKey(entry: ScoreEntry): string {
+  return `${entry.name}|${entry.date}`;
+}
+
+/** Rank of `entry` among games played at the same difficulty and topic (or the same daily challenge), or null if it isn't in `list`. */
+export function rankEntry(list: ScoreEntry[], entry: ScoreEntry): number | null {
+  const board = entry.daily
+    ? dailyLeaderboard(list, entry.daily)
+    : filterLeaderboard(list, { difficulty: entry.difficulty ?? "any", topic: entry.topic, window: "all" });
+  const key = entryKey(entry);
+  return board.findIndex(e => entryKey(e) === key) + 1 || null;
+}
+
+/** The regular boards; daily challenges have their own, see dailyLeaderboard. */
+export function filterLeaderboard(list: ScoreEntry[], filter: LeaderboardFilter, now = new Date()): ScoreEntry[] {
+  const since =
+    filter.window === "today" ? startOfDay(now) :
+    filter.window === "week" ? startOfWeek(now, { weekStartsOn: 1 }) :
+    null;
+  return sortByScore(list).filter(e =>
+    !e.daily &&
+    (filter.difficulty === "any" || e.difficulty === filter.difficulty) &&
+    (filter.topic === "any" || e.topic === filter.topic) &&
+    (!since || new Date(e.date) >= since)
+  );
+}
+
+/** Everyone's attempt at one day's challenge, best first. */
+export function dailyLeaderboard(list: ScoreEntry[], day: string): ScoreEntry[] {
+  return sortByScore(list.filter(e => e.daily === day));
+}
+
+export function sortLeaderboard(list: ScoreEntry[], key: SortKey, direction: "asc" | "desc" = "desc"): ScoreEntry[] {
+  const value = (e: ScoreEntry) =>
+    key === "date" ? new Date(e.date).getTime() :
+    key === "accuracy" ? e.accuracy ?? -1 :
+    e.score;
+  const sign = direction === "desc" ? -1 : 1;
+  return [...list].sort((a, b) => sign * (value(a) - value(b)) || b.score - a.score);
+}
+
+export function searchLeaderboard(list: ScoreEntry[], query: string): ScoreEntry[] {
+  const q = query.trim().toLowerCase();
+  return q ? list.filter(e => e.name.toLowerCase().includes(q) || e.team?.toLowerCase().includes(q)) : list;
+}
+
+export function summarizePlayer(list: ScoreEntry[], name: string): PlayerSummary {
+  const games = sortLeaderboard(list.filter(e => e.name === name), "date");
+  const withAccuracy = games.filter(e => e.accuracy !== null);
+  return {
+    name,
+    games,
+    bestScore: Math.max(0, ...games.map(e => e.score)),
+    averageAccuracy: withAccuracy.length
+      ? withAccuracy.reduce((sum, e) => sum + (e.accuracy ?? 0), 0) / withAccuracy.length
+      : null,
+  };
+}
+
+/** Rolls individual entries up by team; entries without a team are left out. */
+export function summarizeTeams(list: ScoreEntry[], sortBy: TeamSortKey = "total"): TeamSummary[] {
+  const teams = new Map<string, TeamSummary>();
+  for (const e of list) {
+    if (!e.team) continue;
+    const key = e.team.toLowerCase();
+    const t = teams.get(key) ?? { team: e.team, members: [], games: 0, total: 0, average: 0, bestScore: 0 };
+    if (!t.members.includes(e.name)) t.members.push(e.name);
+    t.games++;
+    t.total += e.score;
+    t.bestScore = Math.max(t.bestScore, e.score);
+    t.average = Math.round(t.total / t.games);
+    teams.set(key, t);
+  }
+  return [...teams.values()].sort((a, b) => b[sortBy] - a[sortBy] || b.total - a.total);
+}
+
+export function searchTeams(list: TeamSummary[], query: string): TeamSummary[] {
+  const q = query.trim().toLowerCase();
+  return q ? list.filter(t => t.team.toLowerCase().includes(q) || t.members.some(m => m.toLowerCase().includes(q))) : list;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { migrateEntry, type ScoreEntry } from "@/lib/leaderboard";
+import { createHttpStore } from "@/lib/leaderboardStore";
+
+const BASE_URL = "https://scores.example/api/";
+
+const entry = (name: string, score = 100): ScoreEntry => migrateEntry({ name, score, date: "2026-10-19T10:00:00.000Z" });
+
+/** A backend that answers from `respond`, recording what was posted to it */
+function fakeBackend(respond: (init?: RequestInit) => Response | Promise<Response>) {
+  const posted: ScoreEntry[] = [];
+  const fetchImpl = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    expect(String(input)).toBe("https://scores.example/api/scores");
+    const res = await respond(init);
+    if (init?.method === "POST" && res.ok) posted.push(JSON.parse(String(init.body)));
+    return res;
+  });
+  return { fetchImpl: fetchImpl as typeof fetch, posted };
+}
+
+const ok = (body: unknown = {}) => new Response(JSON.stringify(body), { status: 200 });
+const status = (code: number) => new Response("", { status: code });
+const offline = () => Promise.reject(new TypeError("Failed to fetch"));
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  });
+  vi.stubGlobal("navigator", { onLine: true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createHttpStore", () => {
+  it("queues a submission that fails on the network and sends it on flush", async () => {
+    let up = false;
+    const { fetchImpl, posted } = fakeBackend(() => (up ? ok() : offline()));
+    const store = createHttpStore(BASE_URL, fetchImpl);
+
+    expect(await store.submit(entry("Ama"))).toEqual({ queued: true });
+    expect(store.pending()).toEqual([entry("Ama")]);
+
+    up = true;
+    expect(await store.flush()).toBe(1);
+    expect(posted).toEqual([entry("Ama")]);
+    expect(store.pending()).toEqual([]);
+  });
+
+  it("queues without trying the network while the browser is offline", async () => {
+    vi.stubGlobal("navigator", { onLine: false });
+    const { fetchImpl } = fakeBackend(() => ok());
+    const store = createHttpStore(BASE_URL, fetchImpl);
+
+    expect(await store.submit(entry("Kofi"))).toEqual({ queued: true });
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it("queues on a server error but throws on a rejected entry", async () => {
+    let code = 503;
+    const { fetchImpl } = fakeBackend(() => status(code));
+    const store = createHttpStore(BASE_URL, fetchImpl);
+
+    expect(await store.submit(entry("Ama"))).toEqual({ queued: true });
+    code = 400;
+    await expect(store.submit(entry("Kofi"))).rejects.toMatchObject({ name: "LeaderboardHttpError", status: 400 });
+    expect(store.pending()).toEqual([entry("Ama")]);
+  });
+
+  it("stops flushing at a retryable failure and keeps the rest in order", async () => {
+    const { fetchImpl, posted } = fakeBackend((init) => {
+      const { name } = JSON.parse(String(init?.body));
+      return name === "Esi" ? status(500) : ok();
+    });
+    const store = createHttpStore(BASE_URL, fetchImpl);
+    vi.stubGlobal("navigator", { onLine: false });
+    for (const name of ["Ama", "Esi", "Kofi"]) await store.submit(entry(name));
+    vi.stubGlobal("navigator", { onLine: true });
+
+    expect(await store.flush()).toBe(1);
+    expect(posted).toEqual([entry("Ama")]);
+    expect(store.pending()).toEqual([entry("Esi"), entry("Kofi")]);
+  });
+
+  it("drops queued entries the server rejects so they don't block the queue", async () => {
+    const { fetchImpl, posted } = fakeBackend((init) => (JSON.parse(String(init?.body)).name === "Esi" ? status(422) : ok()));
+    const store = createHttpStore(BASE_URL, fetchImpl);
+    vi.stubGlobal("navigator", { onLine: false });
+    for (const name of ["Esi", "Kofi"]) await store.submit(entry(name));
+    vi.stubGlobal("navigator", { onLine: true });
+
+    expect(await store.flush()).toBe(2);
+    expect(posted).toEqual([entry("Kofi")]);
+    expect(store.pending()).toEqual([]);
+  });
+
+  it("lists the board with queued entries it doesn't have yet, and the cached board while offline", async () => {
+    let up = true;
+    const { fetchImpl } = fakeBackend((init) => {
+      if (!up) return offline();
+      return init?.method === "POST" ? status(503) : ok([entry("Ama")]);
+    });
+    const store = createHttpStore(BASE_URL, fetchImpl);
+    await store.submit(entry("Ama"));
+    await store.submit(entry("Kofi"));
+
+    expect(await store.list()).toEqual([entry("Ama"), entry("Kofi")]);
+    up = false;
+    expect(await store.list()).toEqual([entry("Ama"), entry("Kofi")]);
+  });
+
+  it("throws when the server refuses the board outright", async () => {
+    const { fetchImpl } = fakeBackend(() => status(403));
+    await expect(createHttpStore(BASE_URL, fetchImpl).list()).rejects.toMatchObject({ status: 403 });
+  });
+});
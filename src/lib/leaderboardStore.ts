@@ -0,0 +1,148 @@
+// Where leaderboard entries are kept: this device (localStorage) or a shared
+// HTTP backend. The HTTP store queues submissions made while offline and
+// replays them once connectivity returns.
+
+import { addEntry, entryKey, migrateEntry, readLeaderboard, type ScoreEntry } from "@/lib/leaderboard";
+
+export interface SubmitResult {
+  /** True when the entry is waiting in the offline queue rather than saved */
+  queued: boolean;
+}
+
+export interface LeaderboardStore {
+  /** Identifies the store in query keys */
+  id: string;
+  list(): Promise<ScoreEntry[]>;
+  submit(entry: ScoreEntry): Promise<SubmitResult>;
+  /** Sends queued submissions in order; resolves to how many left the queue */
+  flush(): Promise<number>;
+  pending(): ScoreEntry[];
+}
+
+const QUEUE_KEY = "yfit_leaderboard_queue";
+const CACHE_KEY = "yfit_leaderboard_cache";
+
+export function createLocalStore(): LeaderboardStore {
+  return {
+    id: "local",
+    list: async () => readLeaderboard(),
+    submit: async (entry) => {
+      addEntry(entry);
+      return { queued: false };
+    },
+    flush: async () => 0,
+    pending: () => [],
+  };
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+export class LeaderboardHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "LeaderboardHttpError";
+  }
+}
+
+/** Network failures and server errors are worth retrying; anything else (e.g. 400) is not. */
+function isRetryable(err: unknown): boolean {
+  return !(err instanceof LeaderboardHttpError) || err.status >= 500;
+}
+
+/**
+ * Talks to a backend exposing `GET {baseUrl}/scores` (JSON array of entries)
+ * and `POST {baseUrl}/scores` (one entry as JSON). See server/leaderboard-mock.mjs.
+ */
+export function createHttpStore(baseUrl: string, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): LeaderboardStore {
+  const url = `${baseUrl.replace(/\/$/, "")}/scores`;
+
+  const readQueue = () => readJson<ScoreEntry[]>(QUEUE_KEY, []);
+  const writeQueue = (queue: ScoreEntry[]) => writeJson(QUEUE_KEY, queue);
+
+  const post = async (entry: ScoreEntry) => {
+    const res = await fetchImpl(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(entry),
+    });
+    if (!res.ok) throw new LeaderboardHttpError(res.status, `Score submission failed (HTTP ${res.status})`);
+  };
+
+  const withPending = (list: ScoreEntry[]) => {
+    const keys = new Set(list.map(entryKey));
+    return [...list, ...readQueue().filter(e => !keys.has(entryKey(e)))];
+  };
+
+  return {
+    id: `http:${url}`,
+
+    async list() {
+      try {
+        const res = await fetchImpl(url);
+        if (!res.ok) throw new LeaderboardHttpError(res.status, `Could not load leaderboard (HTTP ${res.status})`);
+        const list = ((await res.json()) as Partial<ScoreEntry>[]).map(migrateEntry);
+        writeJson(CACHE_KEY, list);
+        return withPending(list);
+      } catch (err) {
+        // Offline: show the last board we saw plus anything still queued
+        if (!isRetryable(err)) throw err;
+        return withPending(readJson<ScoreEntry[]>(CACHE_KEY, []));
+      }
+    },
+
+    async submit(entry) {
+      if (typeof navigator !== "undefined" && !navigator.onLine) {
+        writeQueue([...readQueue(), entry]);
+        return { queued: true };
+      }
+      try {
+        await post(entry);
+        return { queued: false };
+      } catch (err) {
+        if (!isRetryable(err)) throw err;
+        writeQueue([...readQueue(), entry]);
+        return { queued: true };
+      }
+    },
+
+    async flush() {
+      const queue = readQueue();
+      let sent = 0;
+      for (const entry of queue) {
+        try {
+          await post(entry);
+          sent++;
+        } catch (err) {
+          // Drop entries the server rejects outright so they don't block the queue
+          if (!isRetryable(err)) {
+            sent++;
+            continue;
+          }
+          break;
+        }
+      }
+      // Re-read so anything queued while we were sending is kept
+      writeQueue(readQueue().slice(sent));
+      return sent;
+    },
+
+    pending: readQueue,
+  };
+}
+
+/** The store configured for this build: HTTP when VITE_LEADERBOARD_URL is set, else this device. */
+export function createConfiguredStore(): LeaderboardStore {
+  const baseUrl = import.meta.env.VITE_LEADERBOARD_URL;
+  return baseUrl ? createHttpStore(baseUrl) : createLocalStore();
+}
@@ -0,0 +1,71 @@
+// Live quizzes: a facilitator's /host page runs the quiz and player phones on
+// /join answer it, talking through server/live-relay.mjs. These are the
+// messages the two pages exchange through the relay.
+
+import type { ChoiceQuestion } from "@/data/questions";
+import { DIFFICULTY_POINTS } from "@/data/questions";
+import type { OptionOrder } from "@/lib/option-order";
+import { speedBonus, TIMED_QUESTION_SECONDS } from "@/lib/scoring";
+
+export const LIVE_QUESTION_MS = TIMED_QUESTION_SECONDS * 1000;
+
+export interface LivePlayer {
+  id: string;
+  name: string;
+}
+
+export interface LiveStanding {
+  name: string;
+  score: number;
+  rank: number;
+}
+
+/** A question as sent to players, without its answer. Live quizzes only use single-answer questions. */
+export type LiveQuestion = Omit<ChoiceQuestion, "answerIndex" | "explanation">;
+
+export type RelayMessage =
+  | { type: "room"; code: string }
+  | { type: "joined"; code: string; playerId: string; name: string }
+  | { type: "players"; players: LivePlayer[] }
+  | { type: "error"; reason: "noRoom" | "noName" | "nameTaken" | "badMessage" }
+  | { type: "closed" };
+
+export type HostMessage =
+  // Options go out in bank order so players can translate them; `order` is how to show them
+  | { type: "question"; index: number; total: number; question: LiveQuestion; order: OptionOrder; limitMs: number }
+  | { type: "reveal"; index: number; question: ChoiceQuestion; standings: LiveStanding[] }
+  | { type: "end"; standings: LiveStanding[] };
+
+/** `choice` is the option's index in the bank, not its position on the player's screen */
+export type PlayerMessage = { type: "answer"; index: number; choice: number };
+
+/** What the host receives: relay notices plus player messages tagged with who sent them */
+export type HostInbox = RelayMessage | (PlayerMessage & { playerId: string });
+export type PlayerInbox = RelayMessage | HostMessage;
+
+/** The relay runs on the machine serving the app unless VITE_LIVE_URL says otherwise. */
+export function liveRelayUrl(): string {
+  return import.meta.env.VITE_LIVE_URL ?? `ws://${window.location.hostname}:8788`;
+}
+
+export function stripAnswer({ answerIndex: _answer, explanation: _explanation, ...question }: ChoiceQuestion): LiveQuestion {
+  return question;
+}
+
+/** Number of players who picked each option */
+export function answerDistribution(choices: number[], optionCount: number): number[] {
+  const counts = Array<number>(optionCount).fill(0);
+  for (const c of choices) if (c >= 0 && c < optionCount) counts[c]++;
+  return counts;
+}
+
+/** Points for a live answer: base points for the tier plus a speed bonus, as in timed games. */
+export function livePoints(question: ChoiceQuestion, choice: number, elapsedMs: number): number {
+  if (choice !== question.answerIndex) return 0;
+  return DIFFICULTY_POINTS[question.difficulty] + speedBonus(question.difficulty, LIVE_QUESTION_MS - elapsedMs, LIVE_QUESTION_MS);
+}
+
+export function rankStandings(scores: Record<string, number>): LiveStanding[] {
+  const sorted = Object.entries(scores).sort(([, a], [, b]) => b - a);
+  return sorted.map(([name, score]) => ({ name, score, rank: sorted.findIndex(([, s]) => s === score) + 1 }));
+}
@@ -0,0 +1,22 @@
+// Question images load lazily on the card, so without a nudge the offline cache
+// would only hold the ones a player has already seen.
+
+import type { Question } from "@/data/questions";
+
+export function questionImageUrls(questions: Question[]): string[] {
+  const urls = new Set<string>();
+  for (const q of questions) {
+    if (q.image) urls.add(q.image.src);
+    if ("optionImages" in q) q.optionImages?.forEach(src => src && urls.add(src));
+  }
+  return [...urls];
+}
+
+/** Requests each image in the background so the service worker stores it. */
+export function prefetchImages(urls: string[]) {
+  for (const src of urls) {
+    const img = new Image();
+    img.decoding = "async";
+    img.src = src;
+  }
+}
@@ -0,0 +1,48 @@
+// Read-aloud settings for players who find the text hard going. Speech uses
+// the browser's own voices, so what's available depends on the device.
+
+import type { Locale } from "@/i18n";
+
+export interface VoiceChoice {
+  /** SpeechSynthesisVoice.voiceURI; null lets the browser pick */
+  voice: string | null;
+  rate: number;
+}
+
+export interface NarrationSettings {
+  enabled: boolean;
+  /** Voices only speak their own language, so each locale keeps its own choice */
+  byLocale: Partial<Record<Locale, VoiceChoice>>;
+}
+
+export const NARRATION_RATES = [0.75, 1, 1.25] as const;
+
+const NARRATION_KEY = "yfit_narration";
+const DEFAULT_CHOICE: VoiceChoice = { voice: null, rate: 1 };
+
+export function readNarration(): NarrationSettings {
+  try {
+    const raw = localStorage.getItem(NARRATION_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return { enabled: !!parsed.enabled, byLocale: parsed.byLocale ?? {} };
+  } catch {
+    return { enabled: false, byLocale: {} };
+  }
+}
+
+export function writeNarration(settings: NarrationSettings) {
+  localStorage.setItem(NARRATION_KEY, JSON.stringify(settings));
+}
+
+export function voiceChoice(settings: NarrationSettings, locale: Locale): VoiceChoice {
+  return { ...DEFAULT_CHOICE, ...settings.byLocale[locale] };
+}
+
+/** Voices whose language matches the locale, e.g. "fr-FR" and "fr-CA" for "fr". */
+export function voicesFor<V extends { lang: string }>(voices: V[], locale: Locale): V[] {
+  return voices.filter(v => v.lang.toLowerCase().split(/[-_]/)[0] === locale);
+}
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window && "SpeechSynthesisUtterance" in window;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { ChoiceQuestion, MultiSelectQuestion, TrueFalseQuestion } from "@/data/questions";
+import { arrangeOptions, bankResponse, optionOrder } from "@/lib/option-order";
+
+const base = { category: "PrEP", difficulty: "easy", text: "?" } as const;
+
+const choice: ChoiceQuestion = { ...base, id: "c", options: ["A", "B", "C", "D"], answerIndex: 1, optionImages: ["/a.svg", "", "/c.svg", ""] };
+const multiSelect: MultiSelectQuestion = { ...base, id: "ms", type: "multiSelect", options: ["A", "B", "C", "D"], answerIndexes: [0, 2] };
+const trueFalse: TrueFalseQuestion = { ...base, id: "tf", type: "trueFalse", answer: true };
+
+describe("optionOrder", () => {
+  it("gives the same order for the same seed and question", () => {
+    expect(optionOrder(choice, 42)).toEqual(optionOrder(choice, 42));
+    expect([...optionOrder(choice, 42)].sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it("varies with the seed and the question", () => {
+    const orders = new Set(Array.from({ length: 20 }, (_, seed) => optionOrder(choice, seed).join()));
+    expect(orders.size).toBeGreaterThan(1);
+    const other = { ...choice, id: "c2" };
+    expect(Array.from({ length: 20 }, (_, seed) => optionOrder(other, seed).join())).not.toEqual(
+      Array.from({ length: 20 }, (_, seed) => optionOrder(choice, seed).join()),
+    );
+  });
+
+  it("leaves types without options alone", () => {
+    expect(optionOrder(trueFalse, 42)).toEqual([]);
+    expect(arrangeOptions(trueFalse, [])).toBe(trueFalse);
+  });
+});
+
+describe("arrangeOptions", () => {
+  it("moves the answer and pictures along with the options", () => {
+    const shown = arrangeOptions(choice, [2, 0, 3, 1]);
+    expect(shown.options).toEqual(["C", "A", "D", "B"]);
+    expect(shown.optionImages).toEqual(["/c.svg", "/a.svg", "", ""]);
+    expect(shown.options[shown.answerIndex]).toBe("B");
+  });
+
+  it("maps every answer of a multi-select question", () => {
+    const shown = arrangeOptions(multiSelect, [3, 2, 1, 0]);
+    expect(shown.answerIndexes.map(i => shown.options[i]).sort()).toEqual(["A", "C"]);
+  });
+});
+
+it("maps an on-screen answer back to bank order", () => {
+  const order = [2, 0, 3, 1];
+  expect(bankResponse([3], order)).toEqual([1]);
+  expect(bankResponse([2, 0], order)).toEqual([2, 3]);
+  expect(bankResponse([1, 0, 2], [])).toEqual([1, 0, 2]);
+});
@@ -0,0 +1,40 @@
+// Options are shown in a fresh order each time a question is presented, so the
+// right answer isn't always the first button. Banks, translations and answer
+// records all stay in bank order; an OptionOrder maps between the two:
+// order[position on screen] = index in the bank.
+
+import type { Question } from "@/data/questions";
+import type { Response } from "@/lib/grading";
+import { createRng, hashSeed, shuffle } from "@/lib/random";
+
+export type OptionOrder = number[];
+
+/**
+ * The order a question's options are shown in during the game played with
+ * `seed`; the same seed always gives the same order. Empty for types without
+ * options: true/false always reads True then False, and the rest have their own.
+ */
+export function optionOrder(question: Question, seed: number): OptionOrder {
+  if (!("options" in question)) return [];
+  return shuffle(question.options.map((_, i) => i), createRng(hashSeed(`${seed}:${question.id}`)));
+}
+
+/** The question as shown: options and their pictures in `order`, with the answer moved to match. */
+export function arrangeOptions<Q extends Question>(question: Q, order: OptionOrder): Q {
+  const q: Question = question;
+  if (!order.length || !("options" in q)) return question;
+  const shown = {
+    ...q,
+    options: order.map(i => q.options[i]),
+    ...(q.optionImages && { optionImages: order.map(i => q.optionImages?.[i] ?? "") }),
+  };
+  return (q.type === "multiSelect"
+    ? { ...shown, answerIndexes: q.answerIndexes.map(i => order.indexOf(i)) }
+    : { ...shown, answerIndex: order.indexOf(q.answerIndex) }) as Q;
+}
+
+/** Maps an answer given on screen back to bank order, for records that outlive the game. */
+export function bankResponse(response: Response, order: OptionOrder): Response {
+  if (!order.length) return response;
+  return response.map(position => order[position]).sort((a, b) => a - b);
+}
@@ -0,0 +1,6 @@
+// Player identity shared by the features that remember a player between games
+
+/** Names are matched case-insensitively and ignoring surrounding spaces. */
+export function playerKey(name: string): string {
+  return name.trim().toLowerCase();
+}
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { QUESTIONS } from "@/data/questions";
+import {
+  dueCount,
+  LEITNER_INTERVALS,
+  masteredCount,
+  practiceSet,
+  readKnowledge,
+  recordReview,
+  reviewCard,
+  type CardState,
+  type Knowledge,
+} from "@/lib/practice";
+import { createRng } from "@/lib/random";
+
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+const card = (box: number, dueInDays: number): CardState => ({
+  box,
+  due: new Date(NOW.getTime() + dueInDays * DAY).toISOString(),
+  reviews: box,
+  lapses: 0,
+});
+
+describe("reviewCard", () => {
+  it("moves a correct answer up a box and further out, up to the last box", () => {
+    let state: CardState | undefined;
+    const boxes: number[] = [];
+    for (let i = 0; i < LEITNER_INTERVALS.length + 1; i++) {
+      state = reviewCard(state, true, NOW);
+      boxes.push(state.box);
+    }
+    expect(boxes).toEqual([2, 3, 4, 5, 5, 5]);
+    expect(state?.due).toBe(new Date(NOW.getTime() + 14 * DAY).toISOString());
+  });
+
+  it("sends a miss back to the first box, due straight away", () => {
+    expect(reviewCard(card(4, 5), false, NOW)).toEqual({ box: 1, due: NOW.toISOString(), reviews: 5, lapses: 1 });
+  });
+});
+
+describe("practiceSet", () => {
+  const [a, b, c, d, e] = QUESTIONS;
+  const knowledge: Knowledge = {
+    [a.id]: card(3, -1),
+    [b.id]: card(1, -1),
+    [c.id]: card(1, -3),
+    [d.id]: card(2, 4),
+  };
+
+  it("puts due cards first, lowest box then most overdue, then unseen, then the soonest coming up", () => {
+    const ids = (size: number) => practiceSet([a, b, c, d, e], knowledge, size, NOW, createRng(1)).map(q => q.id).sort();
+    expect(ids(2)).toEqual([b.id, c.id].sort());
+    expect(ids(3)).toEqual([a.id, b.id, c.id].sort());
+    expect(ids(4)).toEqual([a.id, b.id, c.id, e.id].sort());
+    expect(ids(5)).toEqual([a.id, b.id, c.id, d.id, e.id].sort());
+  });
+
+  it("counts what is due", () => {
+    expect(dueCount([a, b, c, d, e], knowledge, NOW)).toBe(3);
+  });
+});
+
+describe("stored knowledge", () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    });
+    return () => vi.unstubAllGlobals();
+  });
+
+  it("is kept per player, ignoring case and spaces in the name", () => {
+    recordReview("Ama", "q1", true, NOW);
+    recordReview(" ama ", "q2", false, NOW);
+    recordReview("Kofi", "q1", false, NOW);
+    expect(Object.keys(readKnowledge("AMA"))).toEqual(["q1", "q2"]);
+    expect(readKnowledge("Kofi").q1.box).toBe(1);
+  });
+});
+
+it("counts cards from the fourth box up as mastered", () => {
+  expect(masteredCount({ a: card(3, 1), b: card(4, 1), c: card(5, 1) })).toBe(2);
+});
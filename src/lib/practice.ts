@@ -0,0 +1,94 @@
+// Spaced-repetition practice: a Leitner scheduler per player, keyed by
+// Question.id. A correct answer moves a question up a box and pushes its next
+// review further out; a miss sends it back to the first box, due immediately.
+
+import { addDays } from "date-fns";
+import type { Question } from "@/data/questions";
+import { playerKey } from "@/lib/players";
+import { shuffle, type Rng } from "@/lib/random";
+
+export interface CardState {
+  /** 1 (still learning) to LEITNER_INTERVALS.length (well known) */
+  box: number;
+  /** ISO timestamp after which the question is due for review */
+  due: string;
+  reviews: number;
+  lapses: number;
+}
+
+/** Question id → card */
+export type Knowledge = Record<string, CardState>;
+
+/** Days until the next review for each box, first box first */
+export const LEITNER_INTERVALS = [0, 1, 3, 7, 14];
+export const PRACTICE_SET_SIZE = 10;
+
+const PRACTICE_KEY = "yfit_practice";
+
+function readAll(): Record<string, Knowledge> {
+  try {
+    const raw = localStorage.getItem(PRACTICE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function readKnowledge(name: string): Knowledge {
+  return readAll()[playerKey(name)] ?? {};
+}
+
+export function writeKnowledge(name: string, knowledge: Knowledge) {
+  localStorage.setItem(PRACTICE_KEY, JSON.stringify({ ...readAll(), [playerKey(name)]: knowledge }));
+}
+
+export function reviewCard(card: CardState | undefined, correct: boolean, now = new Date()): CardState {
+  const box = correct ? Math.min((card?.box ?? 1) + 1, LEITNER_INTERVALS.length) : 1;
+  return {
+    box,
+    due: addDays(now, LEITNER_INTERVALS[box - 1]).toISOString(),
+    reviews: (card?.reviews ?? 0) + 1,
+    lapses: (card?.lapses ?? 0) + (correct ? 0 : 1),
+  };
+}
+
+/** Updates the player's stored knowledge with one answer. */
+export function recordReview(name: string, questionId: string, correct: boolean, now = new Date()) {
+  const knowledge = readKnowledge(name);
+  writeKnowledge(name, { ...knowledge, [questionId]: reviewCard(knowledge[questionId], correct, now) });
+}
+
+export function isDue(card: CardState | undefined, now = new Date()): boolean {
+  return !!card && new Date(card.due) <= now;
+}
+
+export function dueCount(pool: Question[], knowledge: Knowledge, now = new Date()): number {
+  return pool.filter(q => isDue(knowledge[q.id], now)).length;
+}
+
+/**
+ * Picks a practice set: questions due for review first (lowest box, then most
+ * overdue), then ones the player has never seen, then those coming up soonest.
+ */
+export function practiceSet(pool: Question[], knowledge: Knowledge, size = PRACTICE_SET_SIZE, now = new Date(), rng: Rng = Math.random): Question[] {
+  const time = (q: Question) => new Date(knowledge[q.id].due).getTime();
+  const due = pool
+    .filter(q => isDue(knowledge[q.id], now))
+    .sort((a, b) => knowledge[a.id].box - knowledge[b.id].box || time(a) - time(b));
+  const unseen = shuffle(pool.filter(q => !knowledge[q.id]), rng);
+  const later = pool.filter(q => knowledge[q.id] && !isDue(knowledge[q.id], now)).sort((a, b) => time(a) - time(b));
+  return shuffle([...due, ...unseen, ...later].slice(0, size), rng);
+}
+
+/** Box from which a question counts as mastered on the player's profile */
+export const MASTERED_BOX = 4;
+
+export function masteredCount(knowledge: Knowledge): number {
+  return Object.values(knowledge).filter(card => card.box >= MASTERED_BOX).length;
+}
+
+export function deleteKnowledge(name: string) {
+  const all = readAll();
+  delete all[playerKey(name)];
+  localStorage.setItem(PRACTICE_KEY, JSON.stringify(all));
+}
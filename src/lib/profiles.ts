@@ -0,0 +1,145 @@
+// Local player profiles: who has played on this device and their lifetime
+// stats. A profile's id is its playerKey, which also keys the practice
+// scheduler, so the same name always finds the same progress.
+
+import { format, subDays } from "date-fns";
+import { CATEGORIES, type Category } from "@/data/questions";
+import { isMissed, type AnswerRecord } from "@/lib/answers";
+import type { BoardDifficulty } from "@/lib/leaderboard";
+import { playerKey } from "@/lib/players";
+import type { ScoreState } from "@/lib/scoring";
+
+export interface CategoryStats {
+  answered: number;
+  correct: number;
+}
+
+export interface PlayerProfile {
+  id: string;
+  /** As the player first typed it */
+  name: string;
+  createdAt: string;
+  /** Team last played for in team mode, offered again next time */
+  team: string | null;
+  gamesPlayed: number;
+  categories: Record<Category, CategoryStats>;
+  /** Only games that went on the leaderboard */
+  bestScores: Partial<Record<BoardDifficulty, number>>;
+  /** Games finished per local day, keyed yyyy-MM-dd */
+  playDays: Record<string, number>;
+  /** Daily challenges taken, keyed by the challenge's day; the score stays 0 until the attempt is finished */
+  dailyScores: Record<string, number>;
+  /** Achievement id → ISO timestamp it was unlocked */
+  achievements: Record<string, string>;
+}
+
+export interface GameSummary {
+  answers: AnswerRecord[];
+  state: ScoreState;
+  /** null for games that don't go on the leaderboard */
+  difficulty: BoardDifficulty | null;
+  /** The day of the daily challenge this game was, if it was one */
+  daily?: string;
+}
+
+const PROFILES_KEY = "yfit_profiles";
+const ACTIVE_PROFILE_KEY = "yfit_active_profile";
+
+function emptyCategories(): Record<Category, CategoryStats> {
+  return Object.fromEntries(CATEGORIES.map(c => [c, { answered: 0, correct: 0 }])) as Record<Category, CategoryStats>;
+}
+
+export function dayKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+export function newProfile(name: string, now = new Date()): PlayerProfile {
+  return {
+    id: playerKey(name),
+    name: name.trim(),
+    createdAt: now.toISOString(),
+    team: null,
+    gamesPlayed: 0,
+    categories: emptyCategories(),
+    bestScores: {},
+    playDays: {},
+    dailyScores: {},
+    achievements: {},
+  };
+}
+
+export function readProfiles(): PlayerProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const list: PlayerProfile[] = raw ? JSON.parse(raw) : [];
+    // Categories and fields added after a profile was created start empty
+    return list.map(p => ({ ...p, categories: { ...emptyCategories(), ...p.categories }, achievements: p.achievements ?? {}, team: p.team ?? null, dailyScores: p.dailyScores ?? {} }));
+  } catch {
+    return [];
+  }
+}
+
+export function writeProfiles(list: PlayerProfile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(list));
+}
+
+export function readActiveProfileId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function writeActiveProfileId(id: string | null) {
+  if (id) localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+}
+
+/** Folds one finished game into a profile's lifetime stats. */
+export function applyGame(profile: PlayerProfile, game: GameSummary, now = new Date()): PlayerProfile {
+  const categories = { ...profile.categories };
+  for (const a of game.answers) {
+    const stats = categories[a.question.category] ?? { answered: 0, correct: 0 };
+    categories[a.question.category] = { answered: stats.answered + 1, correct: stats.correct + (isMissed(a) ? 0 : 1) };
+  }
+  const bestScores = { ...profile.bestScores };
+  if (game.difficulty) bestScores[game.difficulty] = Math.max(bestScores[game.difficulty] ?? 0, game.state.total);
+  const day = dayKey(now);
+  return {
+    ...profile,
+    gamesPlayed: profile.gamesPlayed + 1,
+    categories,
+    bestScores,
+    playDays: { ...profile.playDays, [day]: (profile.playDays[day] ?? 0) + 1 },
+    dailyScores: game.daily ? { ...profile.dailyScores, [game.daily]: game.state.total } : profile.dailyScores,
+  };
+}
+
+/** Share of answers that were correct across all categories, or null before any. */
+export function overallAccuracy(profile: PlayerProfile): number | null {
+  const stats = Object.values(profile.categories);
+  const answered = stats.reduce((sum, s) => sum + s.answered, 0);
+  return answered ? stats.reduce((sum, s) => sum + s.correct, 0) / answered : null;
+}
+
+/** Consecutive days in `days`, counting back from today (or from yesterday if today isn't there yet). */
+function streakOf(days: Record<string, number>, today: Date): number {
+  let day = dayKey(today) in days ? today : subDays(today, 1);
+  let streak = 0;
+  while (dayKey(day) in days) {
+    streak++;
+    day = subDays(day, 1);
+  }
+  return streak;
+}
+
+/** Consecutive days with a finished game. */
+export function dayStreak(profile: PlayerProfile, today = new Date()): number {
+  return streakOf(profile.playDays, today);
+}
+
+/** Consecutive days on which the daily challenge was taken. */
+export function dailyStreak(profile: PlayerProfile, today = new Date()): number {
+  return streakOf(profile.dailyScores, today);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { createRng, hashSeed, randomSeed, shuffle } from "@/lib/random";
+
+const draw = (seed: number, n = 5) => {
+  const rng = createRng(seed);
+  return Array.from({ length: n }, rng);
+};
+
+describe("createRng", () => {
+  it("repeats the same sequence for the same seed", () => {
+    expect(draw(1234)).toEqual(draw(1234));
+    expect(draw(1234)).not.toEqual(draw(1235));
+  });
+
+  it("returns numbers in [0, 1)", () => {
+    expect(draw(0, 1000).every(n => n >= 0 && n < 1)).toBe(true);
+  });
+
+  it("takes any 32-bit seed", () => {
+    expect(draw(0xffffffff)).toEqual(draw(-1));
+    expect(Number.isInteger(randomSeed()) && randomSeed() >= 0 && randomSeed() <= 0xffffffff).toBe(true);
+  });
+});
+
+describe("hashSeed", () => {
+  it("is stable and spreads texts that differ only at the end", () => {
+    expect(hashSeed("42:prep-e-1")).toBe(hashSeed("42:prep-e-1"));
+    expect(hashSeed("42:prep-e-1")).not.toBe(hashSeed("42:prep-e-2"));
+    expect(Math.abs(hashSeed("daily:2026-10-19") - hashSeed("daily:2026-10-20"))).toBeGreaterThan(1000);
+  });
+});
+
+describe("shuffle", () => {
+  const items = Array.from({ length: 10 }, (_, i) => i);
+
+  it("deals the same order from the same seed without touching the input", () => {
+    const copy = [...items];
+    expect(shuffle(items, createRng(7))).toEqual(shuffle(items, createRng(7)));
+    expect(items).toEqual(copy);
+  });
+
+  it("keeps every item", () => {
+    expect(shuffle(items, createRng(7)).sort((a, b) => a - b)).toEqual(items);
+  });
+});
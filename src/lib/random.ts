@@ -0,0 +1,38 @@
+// Randomness helpers shared by the game modes. Anything that should be
+// repeatable takes an Rng made from a seed; the rest falls back to Math.random.
+
+/** Returns numbers in [0, 1), like Math.random */
+export type Rng = () => number;
+
+/** mulberry32: tiny and fast, and plenty for dealing cards */
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/** A 32-bit seed from any text, e.g. a game seed combined with a question id. */
+export function hashSeed(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (Math.imul(31, h) + text.charCodeAt(i)) | 0;
+  // Mix the bits so texts that differ only at the end still land far apart
+  h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+export function shuffle<T>(arr: T[], rng: Rng = Math.random): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  initialScore,
+  isBonusRound,
+  scoreAnswer,
+  speedBonus,
+  streakMultiplier,
+  STREAK_BREAK_PENALTY,
+  type AnswerInput,
+  type ScoreState,
+} from "@/lib/scoring";
+
+/** Plays `inputs` in order from a fresh score */
+function play(inputs: AnswerInput[]): ScoreState {
+  return inputs.reduce((state, input) => scoreAnswer(state, input).state, initialScore());
+}
+
+const right = (difficulty: AnswerInput["difficulty"] = "easy"): AnswerInput => ({ difficulty, correct: true });
+const wrong = (difficulty: AnswerInput["difficulty"] = "easy"): AnswerInput => ({ difficulty, correct: false });
+
+describe("streak multipliers", () => {
+  it("starts at 1.5× on the third correct answer in a row and 2× on the fifth", () => {
+    expect([1, 2, 3, 4, 5, 9].map(streakMultiplier)).toEqual([1, 1, 1.5, 1.5, 2, 2]);
+  });
+
+  it("multiplies only the base points", () => {
+    const state = play([right(), right()]);
+    const { answer } = scoreAnswer(state, { ...right("medium"), bonusRound: true, remainingMs: 20_000, limitMs: 20_000 });
+    expect(answer).toMatchObject({ multiplier: 1.5, base: 20, streak: 10, speed: 10, bonus: 20, points: 60 });
+  });
+
+  it("resets after a miss", () => {
+    const state = play([right(), right(), right(), wrong(), right()]);
+    expect(state.streak).toBe(1);
+    expect(state.bestStreak).toBe(3);
+  });
+});
+
+describe("streak penalty", () => {
+  it("only applies when the broken streak had earned a multiplier", () => {
+    expect(scoreAnswer(play([right(), right()]), wrong()).answer.penalty).toBe(0);
+    expect(scoreAnswer(play([right(), right(), right()]), wrong()).answer.penalty).toBe(STREAK_BREAK_PENALTY);
+  });
+
+  it("never takes the total below zero", () => {
+    const state: ScoreState = { ...initialScore(), total: 2, streak: 3 };
+    const { state: after, answer } = scoreAnswer(state, wrong());
+    expect(answer.penalty).toBe(2);
+    expect(after.total).toBe(0);
+  });
+
+  it("can be paid from the partial credit of the same answer", () => {
+    const state: ScoreState = { ...initialScore(), streak: 3 };
+    const { state: after, answer } = scoreAnswer(state, { ...wrong("hard"), credit: 0.5 });
+    expect(answer).toMatchObject({ base: 15, penalty: STREAK_BREAK_PENALTY, points: 10 });
+    expect(after.total).toBe(10);
+  });
+});
+
+describe("speed bonus", () => {
+  it("pays half the base points for an instant answer, scaling down to nothing at the buzzer", () => {
+    expect(speedBonus("hard", 20_000, 20_000)).toBe(15);
+    expect(speedBonus("hard", 10_000, 20_000)).toBe(8);
+    expect(speedBonus("hard", 0, 20_000)).toBe(0);
+  });
+
+  it("isn't paid on untimed or wrong answers", () => {
+    expect(scoreAnswer(initialScore(), right()).answer.speed).toBe(0);
+    expect(scoreAnswer(initialScore(), { ...wrong(), remainingMs: 20_000, limitMs: 20_000 }).answer.speed).toBe(0);
+  });
+});
+
+describe("bonus rounds", () => {
+  it("falls on every fifth question", () => {
+    expect([0, 1, 2, 3, 4, 9].map(isBonusRound)).toEqual([false, false, false, false, true, true]);
+  });
+
+  it("doubles the base points of a correct answer only", () => {
+    expect(scoreAnswer(initialScore(), { ...right("medium"), bonusRound: true }).answer).toMatchObject({ bonus: 20, points: 40 });
+    expect(scoreAnswer(initialScore(), { ...wrong("medium"), bonusRound: true }).answer.bonus).toBe(0);
+  });
+});
+
+it("keeps the breakdown adding up to the total", () => {
+  const state = play([right(), right("hard"), right("medium"), wrong(), { ...right(), bonusRound: true }, { ...wrong("hard"), credit: 1 / 3 }]);
+  const { base, streak, speed, bonus, penalty } = state.breakdown;
+  expect(base + streak + speed + bonus - penalty).toBe(state.total);
+});
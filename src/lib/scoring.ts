@@ -0,0 +1,122 @@
+// Scoring engine: turns a sequence of answers into a running total with a
+// per-component breakdown. Pure functions only, so it can be driven from the
+// game screen or from tests.
+
+import { DIFFICULTY_POINTS, type Difficulty } from "@/data/questions";
+
+export const TIMED_QUESTION_SECONDS = 20;
+/** Share of the base points paid for an instant answer; scales down linearly to 0 at the buzzer */
+export const SPEED_BONUS_RATIO = 0.5;
+/** Highest threshold first; a streak of at least `streak` correct answers earns `multiplier` */
+export const STREAK_MULTIPLIERS = [
+  { streak: 5, multiplier: 2 },
+  { streak: 3, multiplier: 1.5 },
+];
+/** Points lost when a streak long enough to earn a multiplier is broken */
+export const STREAK_BREAK_PENALTY = 5;
+/** Every Nth question is a bonus round worth its base points twice */
+export const BONUS_ROUND_EVERY = 5;
+
+export interface ScoreBreakdown {
+  base: number;
+  streak: number;
+  speed: number;
+  bonus: number;
+  /** Stored as a positive number and subtracted from the total */
+  penalty: number;
+}
+
+export interface ScoreState {
+  total: number;
+  answered: number;
+  correct: number;
+  streak: number;
+  bestStreak: number;
+  breakdown: ScoreBreakdown;
+}
+
+export interface AnswerInput {
+  difficulty: Difficulty;
+  correct: boolean;
+  /** Share of a multi-part question that was right, for answers that aren't fully correct */
+  credit?: number;
+  /** Only for timed answers */
+  remainingMs?: number;
+  limitMs?: number;
+  bonusRound?: boolean;
+}
+
+export interface AnswerScore extends ScoreBreakdown {
+  /** Net change to the total */
+  points: number;
+  multiplier: number;
+  streakLength: number;
+}
+
+export function emptyBreakdown(): ScoreBreakdown {
+  return { base: 0, streak: 0, speed: 0, bonus: 0, penalty: 0 };
+}
+
+export function initialScore(): ScoreState {
+  return { total: 0, answered: 0, correct: 0, streak: 0, bestStreak: 0, breakdown: emptyBreakdown() };
+}
+
+export function speedBonus(difficulty: Difficulty, remainingMs: number, limitMs: number): number {
+  if (limitMs <= 0 || remainingMs <= 0) return 0;
+  const fraction = Math.min(remainingMs, limitMs) / limitMs;
+  return Math.round(DIFFICULTY_POINTS[difficulty] * SPEED_BONUS_RATIO * fraction);
+}
+
+export function streakMultiplier(streakLength: number): number {
+  return STREAK_MULTIPLIERS.find(s => streakLength >= s.streak)?.multiplier ?? 1;
+}
+
+/** `index` is zero-based */
+export function isBonusRound(index: number): boolean {
+  return (index + 1) % BONUS_ROUND_EVERY === 0;
+}
+
+/**
+ * Scores one answer. Correct answers earn base points for their difficulty,
+ * multiplied by the current streak, plus speed and bonus-round extras (neither
+ * of which is multiplied). A miss resets the streak and, if the streak had
+ * earned a multiplier, costs STREAK_BREAK_PENALTY (never below zero). A
+ * partly right answer still counts as a miss but keeps its share of the base
+ * points.
+ */
+export function scoreAnswer(state: ScoreState, input: AnswerInput): { state: ScoreState; answer: AnswerScore } {
+  const answer: AnswerScore = { ...emptyBreakdown(), points: 0, multiplier: 1, streakLength: 0 };
+
+  if (input.correct) {
+    const base = DIFFICULTY_POINTS[input.difficulty];
+    answer.streakLength = state.streak + 1;
+    answer.multiplier = streakMultiplier(answer.streakLength);
+    answer.base = base;
+    answer.streak = Math.round(base * (answer.multiplier - 1));
+    answer.speed = input.limitMs ? speedBonus(input.difficulty, input.remainingMs ?? 0, input.limitMs) : 0;
+    answer.bonus = input.bonusRound ? base : 0;
+  } else {
+    answer.base = Math.round(DIFFICULTY_POINTS[input.difficulty] * Math.min(1, Math.max(0, input.credit ?? 0)));
+    if (streakMultiplier(state.streak) > 1) answer.penalty = Math.min(STREAK_BREAK_PENALTY, state.total + answer.base);
+  }
+  answer.points = answer.base + answer.streak + answer.speed + answer.bonus - answer.penalty;
+
+  const b = state.breakdown;
+  return {
+    answer,
+    state: {
+      total: state.total + answer.points,
+      answered: state.answered + 1,
+      correct: state.correct + (input.correct ? 1 : 0),
+      streak: answer.streakLength,
+      bestStreak: Math.max(state.bestStreak, answer.streakLength),
+      breakdown: {
+        base: b.base + answer.base,
+        streak: b.streak + answer.streak,
+        speed: b.speed + answer.speed,
+        bonus: b.bonus + answer.bonus,
+        penalty: b.penalty + answer.penalty,
+      },
+    },
+  };
+}
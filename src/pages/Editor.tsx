@@ -0,0 +1,623 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { QuestionCard } from "@/components/game/QuestionCard";
+import { toast } from "@/hooks/use-toast";
+import { usePageSEO } from "@/hooks/use-page-seo";
+import { useI18n, type I18nContextValue } from "@/i18n/context";
+import {
+  CATEGORIES,
+  DIFFICULTIES,
+  QUESTION_TYPES,
+  QUESTIONS,
+  questionType,
+  type Category,
+  type ChoiceQuestion,
+  type Difficulty,
+  type Question,
+  type QuestionType,
+} from "@/data/questions";
+import { answerPositionIssue, formatBankIssue, readBankFile } from "@/data/questionBank";
+import type { Response } from "@/lib/grading";
+
+const DRAFT_KEY = "yfit_editor_bank";
+const MAX_OPTIONS = 6;
+
+type ItemKind = "option" | "step" | "statement";
+
+// What each row of the list is called; true/false questions have no list, so theirs is never shown
+const ITEM_KINDS: Record<QuestionType, ItemKind> = {
+  choice: "option",
+  trueFalse: "option",
+  multiSelect: "option",
+  ordering: "step",
+  mythFact: "statement",
+};
+
+function readDraft(): Question[] {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY);
+    return raw ? JSON.parse(raw) : QUESTIONS;
+  } catch {
+    return QUESTIONS;
+  }
+}
+
+function writeDraft(bank: Question[]) {
+  localStorage.setItem(DRAFT_KEY, JSON.stringify(bank));
+}
+
+// One list serves every type: options, steps or statements. `marked` is a
+// correct option for multi-select and a fact for myth-or-fact.
+const questionSchema = (t: I18nContextValue["t"]) => z
+  .object({
+    id: z.string().trim().min(1, t("editor.idRequired")),
+    type: z.enum(QUESTION_TYPES as [QuestionType, ...QuestionType[]]),
+    category: z.enum(CATEGORIES as [Category, ...Category[]]),
+    difficulty: z.enum(DIFFICULTIES as [Difficulty, ...Difficulty[]]),
+    text: z.string().trim().min(1, t("editor.textRequired")),
+    imageSrc: z.string().trim(),
+    imageAlt: z.string().trim(),
+    items: z.array(z.object({ value: z.string().trim(), marked: z.boolean(), image: z.string().trim() })).max(MAX_OPTIONS),
+    // -1 while no option is marked correct
+    answerIndex: z.number().int(),
+    answer: z.boolean(),
+    explanation: z.string().trim().optional(),
+  })
+  .superRefine((v, ctx) => {
+    if (v.imageSrc && !v.imageAlt) {
+      ctx.addIssue({ code: "custom", path: ["imageAlt"], message: t("editor.imageAltRequired") });
+    }
+    if (v.type === "trueFalse") return;
+    const kind = ITEM_KINDS[v.type];
+    const min = v.type === "mythFact" ? 1 : 2;
+    if (v.items.length < min) {
+      ctx.addIssue({ code: "custom", path: ["items"], message: t(`editor.minItems.${kind}`, { count: min }) });
+    } else if (v.items.some(item => !item.value)) {
+      ctx.addIssue({ code: "custom", path: ["items"], message: t(`editor.emptyItems.${kind}`) });
+    }
+    if (v.type === "choice" && (v.answerIndex < 0 || v.answerIndex >= v.items.length)) {
+      ctx.addIssue({ code: "custom", path: ["answerIndex"], message: t("editor.answerRequired") });
+    }
+    if (v.type === "multiSelect" && !v.items.some(item => item.marked)) {
+      ctx.addIssue({ code: "custom", path: ["items"], message: t("editor.markedRequired") });
+    }
+  });
+
+type QuestionForm = z.infer<ReturnType<typeof questionSchema>>;
+
+const blankItem = () => ({ value: "", marked: false, image: "" });
+const blankItems = () => Array.from({ length: 4 }, blankItem);
+
+function toForm(q: Question): QuestionForm {
+  const form = {
+    ...q,
+    type: questionType(q),
+    imageSrc: q.image?.src ?? "",
+    imageAlt: q.image?.alt ?? "",
+    items: blankItems(),
+    answerIndex: 0,
+    answer: true,
+    explanation: q.explanation ?? "",
+  };
+  switch (q.type) {
+    case "trueFalse":
+      return { ...form, answer: q.answer };
+    case "multiSelect":
+      return { ...form, items: q.options.map((value, i) => ({ value, marked: q.answerIndexes.includes(i), image: q.optionImages?.[i] ?? "" })) };
+    case "ordering":
+      return { ...form, items: q.steps.map(value => ({ ...blankItem(), value })) };
+    case "mythFact":
+      return { ...form, items: q.statements.map(s => ({ ...blankItem(), value: s.text, marked: s.fact })) };
+    default:
+      return { ...form, items: q.options.map((value, i) => ({ value, marked: false, image: q.optionImages?.[i] ?? "" })), answerIndex: q.answerIndex };
+  }
+}
+
+function toQuestion(v: QuestionForm): Question {
+  const base = { id: v.id.trim(), category: v.category, difficulty: v.difficulty, text: v.text.trim() };
+  const values = v.items.map(item => item.value.trim());
+  const images = v.items.map(item => item.image.trim());
+  const optionImages = images.some(Boolean) ? { optionImages: images } : {};
+  let q: Question;
+  switch (v.type) {
+    case "trueFalse":
+      q = { ...base, type: "trueFalse", answer: v.answer };
+      break;
+    case "multiSelect":
+      q = { ...base, type: "multiSelect", options: values, answerIndexes: v.items.flatMap((item, i) => (item.marked ? [i] : [])), ...optionImages };
+      break;
+    case "ordering":
+      q = { ...base, type: "ordering", steps: values };
+      break;
+    case "mythFact":
+      q = { ...base, type: "mythFact", statements: v.items.map((item, i) => ({ text: values[i], fact: item.marked })) };
+      break;
+    default:
+      // Plain questions stay untyped, like the built-in bank
+      q = { ...base, options: values, answerIndex: v.answerIndex, ...optionImages };
+  }
+  if (v.imageSrc.trim()) q.image = { src: v.imageSrc.trim(), alt: v.imageAlt.trim() };
+  if (v.explanation?.trim()) q.explanation = v.explanation.trim();
+  return q;
+}
+
+function uniqueId(base: string, bank: Question[]): string {
+  const ids = new Set(bank.map(q => q.id));
+  let n = 1;
+  while (ids.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
+const BLANK: ChoiceQuestion = {
+  id: "",
+  category: "HIV Self-Testing",
+  difficulty: "easy",
+  text: "",
+  options: ["", "", "", ""],
+  answerIndex: 0,
+};
+
+export default function Editor() {
+  const { t } = useI18n();
+  usePageSEO(t("editor.seoTitle"), t("editor.seoDescription"));
+
+  const [bank, setBank] = useState<Question[]>(() => readDraft());
+  // Index into `bank` of the question being edited; null while creating a new one
+  const [editing, setEditing] = useState<number | null>(null);
+  // Tied to the preview's shape so changing the type or list length starts afresh
+  const [previewAnswer, setPreviewAnswer] = useState<{ shape: string; response: Response } | null>(null);
+
+  const skew = useMemo(() => answerPositionIssue(bank), [bank]);
+  const takenIds = useMemo(
+    () => new Set(bank.filter((_, i) => i !== editing).map(q => q.id)),
+    [bank, editing]
+  );
+
+  const schema = useMemo(() => questionSchema(t), [t]);
+  const form = useForm<QuestionForm>({
+    resolver: zodResolver(schema),
+    defaultValues: toForm({ ...BLANK, id: uniqueId("question", bank) }),
+  });
+  const items = useFieldArray({ control: form.control, name: "items" });
+  const watched = form.watch();
+  const kind = ITEM_KINDS[watched.type];
+
+  const updateBank = (next: Question[]) => {
+    setBank(next);
+    writeDraft(next);
+  };
+
+  const load = (q: Question, index: number | null) => {
+    setEditing(index);
+    setPreviewAnswer(null);
+    form.reset(toForm(q));
+  };
+
+  const onSubmit = (values: QuestionForm) => {
+    const q = toQuestion(values);
+    if (takenIds.has(q.id)) {
+      form.setError("id", { message: t("editor.idTaken") });
+      return;
+    }
+    if (editing === null) {
+      updateBank([...bank, q]);
+      setEditing(bank.length);
+      toast({ title: t("editor.added"), description: q.id });
+    } else {
+      updateBank(bank.map((existing, i) => (i === editing ? q : existing)));
+      toast({ title: t("editor.saved"), description: q.id });
+    }
+  };
+
+  const duplicate = (index: number) => {
+    const copy = { ...bank[index], id: uniqueId(bank[index].id, bank) };
+    const next = [...bank.slice(0, index + 1), copy, ...bank.slice(index + 1)];
+    updateBank(next);
+    load(copy, index + 1);
+  };
+
+  const remove = (index: number) => {
+    updateBank(bank.filter((_, i) => i !== index));
+    if (editing === index) load({ ...BLANK, id: uniqueId("question", bank) }, null);
+    else if (editing !== null && editing > index) setEditing(editing - 1);
+  };
+
+  const exportBank = () => {
+    const blob = new Blob([JSON.stringify(bank, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "questions.json";
+    a.click();
+    // Revoking straight away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const importBank = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const loaded = await readBankFile(file, bank.map(q => q.id));
+    if (loaded.questions.length) updateBank([...bank, ...loaded.questions]);
+    toast({
+      title: t("banks.imported", { count: loaded.questions.length }),
+      description: loaded.errors.length ? loaded.errors.slice(0, 3).map(formatBankIssue).join("\n") : file.name,
+    });
+  };
+
+  const resetBank = () => {
+    updateBank(QUESTIONS);
+    load({ ...BLANK, id: uniqueId("question", QUESTIONS) }, null);
+  };
+
+  const removeItem = (i: number) => {
+    const answerIndex = form.getValues("answerIndex");
+    items.remove(i);
+    // Removing the correct option leaves no answer rather than quietly marking a different one
+    if (answerIndex === i) form.setValue("answerIndex", -1, { shouldValidate: true });
+    else if (answerIndex > i) form.setValue("answerIndex", answerIndex - 1);
+  };
+
+  const preview = toQuestion({
+    ...watched,
+    id: watched.id || "preview",
+    text: watched.text || t("editor.previewText"),
+    items: (watched.items ?? []).map((item, i) => ({ ...item, value: item.value || t(`editor.item.${kind}`, { number: i + 1 }) })),
+  });
+  const previewShape = `${watched.type}:${watched.items?.length ?? 0}`;
+  const previewResponse = previewAnswer?.shape === previewShape ? previewAnswer.response : null;
+
+  const itemRows = items.fields.map((item, i) => (
+    <div key={item.id} className="space-y-1">
+      <div className="flex items-center gap-2">
+        {watched.type === "choice" && <RadioGroupItem value={String(i)} aria-label={t("editor.optionCorrect", { number: i + 1 })} />}
+        {(watched.type === "multiSelect" || watched.type === "mythFact") && (
+          <FormField
+            control={form.control}
+            name={`items.${i}.marked`}
+            render={({ field }) => (
+              <Checkbox
+                checked={field.value}
+                onCheckedChange={(checked) => field.onChange(checked === true)}
+                aria-label={t(watched.type === "mythFact" ? "editor.statementFact" : "editor.optionCorrect", { number: i + 1 })}
+              />
+            )}
+          />
+        )}
+        {watched.type === "ordering" && <span className="w-5 text-sm tabular-nums text-muted-foreground">{i + 1}.</span>}
+        <Input placeholder={t(`editor.item.${kind}`, { number: i + 1 })} {...form.register(`items.${i}.value`)} />
+        {watched.type === "ordering" && (
+          <>
+            <Button type="button" size="icon" variant="ghost" disabled={i === 0} onClick={() => items.move(i, i - 1)} aria-label={t("editor.moveUp", { number: i + 1 })}>
+              <ArrowUp className="h-4 w-4" aria-hidden />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              disabled={i === items.fields.length - 1}
+              onClick={() => items.move(i, i + 1)}
+              aria-label={t("editor.moveDown", { number: i + 1 })}
+            >
+              <ArrowDown className="h-4 w-4" aria-hidden />
+            </Button>
+          </>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          disabled={items.fields.length <= (watched.type === "mythFact" ? 1 : 2)}
+          onClick={() => removeItem(i)}
+        >
+          {t("editor.remove")}
+        </Button>
+      </div>
+      {(watched.type === "choice" || watched.type === "multiSelect") && (
+        <Input className="h-8 text-xs" placeholder={t("editor.imageUrl")} {...form.register(`items.${i}.image`)} />
+      )}
+    </div>
+  ));
+
+  return (
+    <main className="container py-8">
+      <header className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">{t("editor.title")}</h1>
+          <p className="text-muted-foreground">{t("editor.subtitle")}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="ghost">
+            <Link to="/game">{t("editor.play")}</Link>
+          </Button>
+          <Button asChild variant="ghost">
+            <Link to="/">{t("editor.home")}</Link>
+          </Button>
+        </div>
+      </header>
+
+      <section className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("editor.bankTitle")}</CardTitle>
+            <CardDescription>{t("editor.bankDescription", { count: bank.length })}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={() => load({ ...BLANK, id: uniqueId("question", bank) }, null)}>{t("editor.newQuestion")}</Button>
+              <Button size="sm" variant="secondary" onClick={exportBank}>{t("editor.export")}</Button>
+              <Button size="sm" variant="outline" onClick={resetBank}>{t("editor.reset")}</Button>
+            </div>
+            <Input type="file" accept="application/json,.json" onChange={importBank} />
+            {skew && (
+              <Alert>
+                <AlertTitle>{t("editor.skewTitle")}</AlertTitle>
+                <AlertDescription>{skew.message}</AlertDescription>
+              </Alert>
+            )}
+            <ScrollArea className="h-[28rem] rounded-md border">
+              <ul>
+                {bank.map((q, i) => (
+                  <li key={q.id} className={`space-y-1 border-b px-3 py-2 ${editing === i ? "bg-accent" : ""}`}>
+                    <button type="button" className="block w-full text-start" onClick={() => load(q, i)}>
+                      <span className="block text-sm font-medium">{q.text}</span>
+                      <span className="text-xs text-muted-foreground">{q.id} • {t(`topic.${q.category}`)} • {t(`difficulty.${q.difficulty}`)}</span>
+                    </button>
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => duplicate(i)}>{t("editor.duplicate")}</Button>
+                      <Button size="sm" variant="ghost" onClick={() => remove(i)}>{t("editor.delete")}</Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing === null ? t("editor.newQuestion") : t("editor.editQuestion")}</CardTitle>
+            <CardDescription>{t(`editor.typeHint.${watched.type}`)}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("editor.id")}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={t("editor.idPlaceholder")} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("editor.type")}</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {QUESTION_TYPES.map(type => (
+                            <SelectItem key={type} value={type}>{t(`editor.typeLabel.${type}`)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t("editor.topic")}</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {CATEGORIES.map(c => (
+                              <SelectItem key={c} value={c}>{t(`topic.${c}`)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="difficulty"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t("editor.difficulty")}</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {DIFFICULTIES.map(d => (
+                              <SelectItem key={d} value={d}>{t(`difficulty.${d}`)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="text"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("editor.question")}</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="imageSrc"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t("editor.imageUrl")}</FormLabel>
+                        <FormControl>
+                          <Input placeholder="/media/self-test-reactive.svg" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="imageAlt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t("editor.imageAlt")}</FormLabel>
+                        <FormControl>
+                          <Input placeholder={t("editor.imageAltPlaceholder")} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {watched.type === "trueFalse" ? (
+                  <FormField
+                    control={form.control}
+                    name="answer"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t("editor.answer")}</FormLabel>
+                        <RadioGroup value={String(field.value)} onValueChange={(v) => field.onChange(v === "true")} className="flex gap-6">
+                          <label className="flex items-center gap-2 text-sm">
+                            <RadioGroupItem value="true" /> {t("questionTypes.true")}
+                          </label>
+                          <label className="flex items-center gap-2 text-sm">
+                            <RadioGroupItem value="false" /> {t("questionTypes.false")}
+                          </label>
+                        </RadioGroup>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="answerIndex"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t(`editor.items.${kind}`)}</FormLabel>
+                        {watched.type === "choice" ? (
+                          <RadioGroup
+                            value={String(field.value)}
+                            onValueChange={(v) => field.onChange(Number(v))}
+                            className="space-y-2"
+                          >
+                            {itemRows}
+                          </RadioGroup>
+                        ) : (
+                          <div className="space-y-2">{itemRows}</div>
+                        )}
+                        <FormMessage />
+                        {form.formState.errors.items && (
+                          <p className="text-sm font-medium text-destructive">
+                            {form.formState.errors.items.message ?? t(`editor.emptyItems.${kind}`)}
+                          </p>
+                        )}
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          disabled={items.fields.length >= MAX_OPTIONS}
+                          onClick={() => items.append(blankItem())}
+                        >
+                          {t(`editor.addItem.${kind}`)}
+                        </Button>
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="explanation"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("editor.explanation")}</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit">{editing === null ? t("editor.add") : t("editor.save")}</Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-3">
+          <h2 className="text-sm text-muted-foreground">{t("editor.previewTitle")}</h2>
+          <QuestionCard
+            key={previewShape}
+            question={preview}
+            index={editing ?? bank.length}
+            total={Math.max(bank.length, (editing ?? bank.length) + 1)}
+            topic={preview.category}
+            response={previewResponse}
+            onAnswer={(response) => setPreviewAnswer({ shape: previewShape, response })}
+            score={0}
+            onNext={() => setPreviewAnswer(null)}
+          />
+          {previewResponse !== null && preview.explanation && (
+            <p className="text-sm text-muted-foreground">{t("editor.previewExplanation", { explanation: preview.explanation })}</p>
+          )}
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -1,16 +1,53 @@
 import { useEffect, useMemo, useState } from "react";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
-import { toast } from "@/hooks/use-toast";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
+import { QuestionCard } from "@/components/game/QuestionCard";
+import { PlayerPicker } from "@/components/game/PlayerPicker";
+import { NarrationSettings } from "@/components/game/NarrationSettings";
+import { AchievementUnlocks } from "@/components/achievements/AchievementUnlocks";
+import type { AchievementId } from "@/lib/achievements";
+import { Badge } from "@/components/ui/badge";
+import { ChevronRight, Swords } from "lucide-react";
+import { toast, useToast } from "@/hooks/use-toast";
+import { useCountdown } from "@/hooks/use-countdown";
+import { useAnswerKeys } from "@/hooks/use-answer-keys";
+import { useNarration } from "@/hooks/use-narration";
+import { useAnswerText } from "@/hooks/use-answer-text";
+import { initialScore, isBonusRound, scoreAnswer, TIMED_QUESTION_SECONDS, type ScoreState } from "@/lib/scoring";
+import { useQuestionPool } from "@/hooks/use-question-pool";
+import { useProfiles } from "@/hooks/use-profiles";
+import { usePageSEO } from "@/hooks/use-page-seo";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { DisplaySettingsMenu } from "@/components/DisplaySettingsMenu";
+import { useI18n } from "@/i18n/context";
+import { LeaderboardList } from "@/components/leaderboard/LeaderboardList";
+import { DailyBoard } from "@/components/leaderboard/DailyBoard";
+import { rankEntry, summarizeTeams, type BoardDifficulty, type ScoreEntry } from "@/lib/leaderboard";
+import { playerKey } from "@/lib/players";
+import { isMissed, type AnswerOutcome, type AnswerRecord } from "@/lib/answers";
+import { correctResponse, gradeResponse, keyOptionCount, type Response } from "@/lib/grading";
+import { AnswerReview } from "@/components/game/AnswerReview";
+import { useLeaderboard, useSubmitScore } from "@/hooks/use-leaderboard";
+import { createRng, hashSeed, randomSeed, shuffle } from "@/lib/random";
+import { arrangeOptions, bankResponse, optionOrder } from "@/lib/option-order";
+import { challengeQuestions, challengeUrl, parseChallenge } from "@/lib/challenge";
+import { DAILY_SIZE, dailySeed, dailySet } from "@/lib/daily";
+import { dayKey } from "@/lib/profiles";
+import { ADAPTIVE_GAME_LENGTH, nextDifficulty, pickAdaptive } from "@/lib/adaptive";
+import { dueCount, practiceSet, readKnowledge, recordReview, PRACTICE_SET_SIZE } from "@/lib/practice";
+import type { MessageKey } from "@/i18n";
+import { formatBankIssue, mergeBanks, type LoadedBank } from "@/data/questionBank";
 
-// Simple WebAudio sound effects (no external dependency)
-function useGameSounds(enabled: boolean) {
+// Simple WebAudio sound effects (no external dependency).
+// They stay quiet while narration is talking rather than play over it.
+function useGameSounds(enabled: boolean, isNarrating: () => boolean = () => false) {
   const playTone = (freq: number, duration = 0.12, type: OscillatorType = "sine", volume = 0.03) => {
-    if (!enabled || typeof window === "undefined" || !(window as any).AudioContext) return;
+    if (!enabled || isNarrating() || typeof window === "undefined" || !(window as any).AudioContext) return;
     const AudioCtx = (window as any).AudioContext || (window as any).webkitAudioContext;
     const ctx = new AudioCtx();
     const o = ctx.createOscillator();
@@ -43,145 +80,339 @@ function useGameSounds(enabled: boolean) {
 }
 
 // Types moved to shared data module
-import { DIFFICULTY_POINTS, QUESTIONS, type Difficulty, type Question } from "@/data/questions";
-
-function shuffle<T>(arr: T[]): T[] {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
-
-function usePageSEO(title: string, description: string) {
-  useEffect(() => {
-    document.title = title;
-    const name = "description";
-    let tag = document.querySelector(`meta[name="${name}"]`);
-    if (!tag) {
-      tag = document.createElement("meta");
-      tag.setAttribute("name", name);
-      document.head.appendChild(tag);
-    }
-    tag.setAttribute("content", description);
-  }, [title, description]);
-}
-
-interface ScoreEntry { name: string; score: number; date: string; }
-const LB_KEY = "yfit_leaderboard";
+import { CATEGORIES, DIFFICULTIES, DIFFICULTY_POINTS, QUESTIONS, type Difficulty, type Question, type Topic } from "@/data/questions";
 
-function readLeaderboard(): ScoreEntry[] {
-  try {
-    const raw = localStorage.getItem(LB_KEY);
-    return raw ? JSON.parse(raw) : [];
-  } catch {
-    return [];
-  }
-}
+/**
+ * Quiz and adaptive games count towards the leaderboard; practice games only feed the review scheduler.
+ * The daily challenge is one timed attempt a day at the same questions for everyone, on a board of its own.
+ */
+type GameMode = "quiz" | "adaptive" | "practice" | "daily";
 
-function writeLeaderboard(list: ScoreEntry[]) {
-  localStorage.setItem(LB_KEY, JSON.stringify(list));
-}
+// Narration waits for the longest sound effect to finish
+const NARRATION_DELAY_MS = 350;
 
 export default function Game() {
-  usePageSEO(
-    "Health Quest — HIV, PrEP & Reproductive Health Trivia",
-    "Health Quest: mixed-topic trivia on HIV self-testing, PrEP, and reproductive health. Pick a difficulty, learn fast, and climb the leaderboard."
-  );
+  const { t, localize } = useI18n();
+  usePageSEO(t("game.seoTitle"), t("game.seoDescription"));
 
-  const [playerName, setPlayerName] = useState("");
+  const profiles = useProfiles();
+  const [playerName, setPlayerName] = useState(() => profiles.active?.name ?? "");
+  const [teamMode, setTeamMode] = useState(() => !!profiles.active?.team);
+  const [team, setTeam] = useState(() => profiles.active?.team ?? "");
+  const questionPool = useQuestionPool();
+  const { pool } = questionPool;
+  // Imported banks differ from device to device, so the daily challenge and seed-only challenge links leave them out
+  const sharedPool = useMemo(() => mergeBanks(QUESTIONS, questionPool.bundled), [questionPool.bundled]);
   
-  const [difficulty, setDifficulty] = useState<Difficulty>("easy");
+  // Opened from a "challenge a friend" link: deal exactly the sender's game
+  const [params, setParams] = useSearchParams();
+  const [challenge, setChallenge] = useState(() => parseChallenge(params));
+  const [mode, setMode] = useState<GameMode>("quiz");
+  const [difficulty, setDifficulty] = useState<Difficulty>(() => challenge?.difficulty ?? "easy");
+  const [topic, setTopic] = useState<Topic>(() => challenge?.topic ?? "all");
+  const [timed, setTimed] = useState(() => challenge?.timed ?? false);
+  const timedPlay = timed || mode === "daily";
   const [soundOn, setSoundOn] = useState(true);
-  const sfx = useGameSounds(soundOn);
+  const narration = useNarration();
+  const answerText = useAnswerText();
+  const sfx = useGameSounds(soundOn, narration.isSpeaking);
 
   const [step, setStep] = useState<"setup" | "playing" | "result">("setup");
   const [currentIdx, setCurrentIdx] = useState(0);
-  const [score, setScore] = useState(0);
-  const [selected, setSelected] = useState<number | null>(null);
+  const [scoreState, setScoreState] = useState<ScoreState>(initialScore);
+  const score = scoreState.total;
+  const [response, setResponse] = useState<Response | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [rank, setRank] = useState<number | null>(null);
-  const total = questions.length;
+  // Decides the questions dealt and the order of their options, so a game can be replayed exactly
+  const [seed, setSeed] = useState(() => challenge?.seed ?? randomSeed());
+  // Looked up again on every return to setup, so a game left open past midnight finishes as the day it started
+  const [today, setToday] = useState(() => dayKey(new Date()));
+  const gameSeed = mode === "daily" ? dailySeed(today) : seed;
+  const [answers, setAnswers] = useState<AnswerRecord[]>([]);
+  const [unlocked, setUnlocked] = useState<AchievementId[]>([]);
+  const [savedEntry, setSavedEntry] = useState<ScoreEntry | null>(null);
+  const leaderboard = useLeaderboard();
+  const submitScore = useSubmitScore();
+  const rank = useMemo(
+    () => (savedEntry && leaderboard.data ? rankEntry(leaderboard.data, savedEntry) : null),
+    [savedEntry, leaderboard.data]
+  );
+  const [startedAt, setStartedAt] = useState(0);
+  // Adaptive games pick each question as they go, so the length is fixed up front
+  const [total, setTotal] = useState(0);
+  const boardDifficulty: BoardDifficulty = mode === "adaptive" ? "adaptive" : difficulty;
+  const dailyPlayed = useMemo(() => {
+    const key = playerKey(playerName);
+    const profile = profiles.profiles.find(p => p.id === key);
+    // A shared leaderboard also catches attempts made on another device
+    return today in (profile?.dailyScores ?? {}) || (leaderboard.data ?? []).some(e => e.daily === today && playerKey(e.name) === key);
+  }, [playerName, profiles.profiles, leaderboard.data, today]);
+  const teamName = teamMode ? team.trim() : "";
+  const knownTeams = useMemo(() => summarizeTeams(leaderboard.data ?? []).map(s => s.team), [leaderboard.data]);
 
   const filtered = useMemo(() => {
-    const pool = QUESTIONS.filter(q => q.difficulty === difficulty);
-    return shuffle(pool).slice(0, 10);
-  }, [difficulty]);
+    if (challenge) return challengeQuestions(challenge, pool, sharedPool);
+    const candidates = pool.filter(q => q.difficulty === difficulty && (topic === "all" || q.category === topic));
+    return shuffle(candidates, createRng(seed)).slice(0, 10);
+  }, [pool, sharedPool, difficulty, topic, seed, challenge]);
+  // Questions from a bank the sender had and this device hasn't; the challenge can't be played without them
+  const challengeMissing = challenge?.questions.length ? challenge.questions.length - filtered.length : 0;
+  const sharedDeal = mode === "daily" || (!!challenge && !challenge.questions.length);
+  // Until the bundled banks are in, a deal would come from a smaller pool than everyone else's
+  const canStart = !questionPool.isLoading && !challengeMissing && (!sharedDeal || questionPool.bundledStatus === "ready");
+  // Practice and adaptive games draw on every difficulty; each question scores at its own level
+  const topicPool = useMemo(() => pool.filter(q => topic === "all" || q.category === topic), [pool, topic]);
+  // Re-read whenever we come back to setup so the last game's answers count
+  const knowledge = useMemo(() => (step === "setup" ? readKnowledge(playerName) : {}), [playerName, step]);
+  const practiceDue = useMemo(() => dueCount(topicPool, knowledge), [topicPool, knowledge]);
 
   useEffect(() => {
     if (step === "setup") {
       setQuestions(filtered);
       setCurrentIdx(0);
-      setScore(0);
-      setSelected(null);
-      setRank(null);
+      setScoreState(initialScore());
+      setResponse(null);
+      setSavedEntry(null);
+      setAnswers([]);
+      setUnlocked([]);
+      setToday(dayKey(new Date()));
     }
   }, [filtered, step]);
 
-  const current = questions[currentIdx];
+  const present = (q: Question) => arrangeOptions(localize(q), optionOrder(q, gameSeed));
+  const current = questions[currentIdx] && present(questions[currentIdx]);
+
+  // The countdown pauses while an explanation toast is still on screen
+  const { toasts } = useToast();
+  const toastOpen = toasts.some(item => item.open);
+  const limitMs = TIMED_QUESTION_SECONDS * 1000;
+  const countdown = useCountdown(limitMs, timedPlay && step === "playing" && response === null && !toastOpen && !narration.speaking, () => {
+    setResponse([]);
+    const { answer } = applyAnswer("timeout", []);
+    sfx.wrong();
+    toast({
+      title: answer.penalty ? t("play.streakLost", { title: t("play.timeUp"), penalty: answer.penalty }) : t("play.timeUp"),
+      description: current.explanation ?? t("play.wrongFallback"),
+    });
+    narration.speak(feedbackLines([]), { delayMs: NARRATION_DELAY_MS });
+  });
+
+  const questionLines = (q: Question) => answerText.readAloud(present(q));
+  const feedbackLines = (picked: Response) => [
+    answerText.verdict(current, picked),
+    gradeResponse(current, picked).correct ? "" : t("a11y.correctAnswerWas", { answer: answerText.describe(current, correctResponse(current)) }),
+    current.explanation ?? "",
+  ];
+
+  const applyAnswer = (outcome: AnswerOutcome, picked: Response | null, credit = 0) => {
+    const result = scoreAnswer(scoreState, {
+      difficulty: current.difficulty,
+      correct: outcome === "correct",
+      credit,
+      remainingMs: countdown.remainingMs,
+      limitMs: timedPlay ? limitMs : undefined,
+      bonusRound: isBonusRound(currentIdx),
+    });
+    const asked = questions[currentIdx];
+    const record: AnswerRecord = { question: asked, response: picked && bankResponse(picked, optionOrder(asked, gameSeed)), outcome, points: result.answer.points };
+    setScoreState(result.state);
+    setAnswers(prev => [...prev, record]);
+    recordReview(playerName, record.question.id, outcome === "correct");
+    return { ...result, record };
+  };
+
+  // Switching player brings back the team they last played for
+  const choosePlayer = (name: string) => {
+    setPlayerName(name);
+    const profile = profiles.profiles.find(p => p.id === playerKey(name));
+    if (profile) {
+      setTeamMode(!!profile.team);
+      setTeam(profile.team ?? "");
+    }
+  };
 
   const handleStart = () => {
+    if (!canStart) return;
     if (!playerName.trim()) {
-      toast({ title: "Enter your name", description: "We’ll use it on the leaderboard." });
+      toast({ title: t("setup.nameRequired"), description: t("setup.nameRequiredHint") });
+      return;
+    }
+    if (teamMode && !teamName) {
+      toast({ title: t("teams.nameRequired"), description: t("teams.nameRequiredHint") });
+      return;
+    }
+    if (mode === "daily" && dailyPlayed) {
+      toast({ title: t("daily.alreadyPlayed"), description: t("daily.alreadyPlayedHint") });
+      return;
+    }
+    const id = profiles.create(playerName);
+    profiles.setTeam(id, teamName || null);
+    const first = mode === "adaptive" ? pickAdaptive(topicPool, difficulty, [], createRng(seed)) : null;
+    const set =
+      mode === "practice" ? practiceSet(topicPool, knowledge, PRACTICE_SET_SIZE, new Date(), createRng(seed)) :
+      mode === "adaptive" ? (first ? [first] : []) :
+      mode === "daily" ? dailySet(sharedPool, today) :
+      filtered;
+    if (!set.length) {
+      toast({
+        title: t("setup.noQuestions"),
+        description: t("setup.noQuestionsHint", { difficulty: t(`difficulty.${difficulty}`), topic: t(`topic.${topic}`) }),
+      });
       return;
     }
+    if (mode === "daily") profiles.startDaily(id, today);
     sfx.levelUp();
+    narration.speak(questionLines(set[0]), { delayMs: NARRATION_DELAY_MS });
+    setQuestions(set);
+    setTotal(mode === "adaptive" ? Math.min(ADAPTIVE_GAME_LENGTH, topicPool.length) : set.length);
+    countdown.reset();
+    setStartedAt(Date.now());
     setStep("playing");
   };
 
-  const handleOption = (index: number) => {
-    if (selected !== null) return;
-    setSelected(index);
-    const isCorrect = index === current.answerIndex;
+  const handleAnswer = (picked: Response) => {
+    if (response !== null) return;
+    setResponse(picked);
+    const { correct: isCorrect, credit } = gradeResponse(current, picked);
+    const { answer } = applyAnswer(isCorrect ? "correct" : "wrong", picked, credit);
+    // Cuts off the options being read so the feedback sound can be heard
+    narration.speak(feedbackLines(picked), { delayMs: NARRATION_DELAY_MS });
     if (isCorrect) {
-      setScore(prev => prev + DIFFICULTY_POINTS[difficulty]);
       sfx.correct();
-      toast({ title: "Correct!", description: current.explanation ?? "Great job!" });
+      const title = t("play.correctPoints", { points: answer.points });
+      toast({
+        title: answer.multiplier > 1
+          ? `${title} • ${t("play.streakTag", { count: answer.streakLength, multiplier: answer.multiplier })}`
+          : title,
+        description: current.explanation ?? t("play.correctFallback"),
+      });
     } else {
       sfx.wrong();
-      toast({ title: "Not quite", description: current.explanation ?? "You’ve got this next time." });
+      const title = answer.base > 0 ? t("play.partlyRight", { points: answer.base }) : t("play.wrong");
+      toast({
+        title: answer.penalty ? t("play.streakLost", { title, penalty: answer.penalty }) : title,
+        description: current.explanation ?? t("play.wrongFallback"),
+      });
     }
   };
 
   const next = () => {
     sfx.click();
+    // Skipping a question counts as a miss so it can't be used to protect a streak
+    const skipped = response === null ? applyAnswer("skipped", null) : null;
+    const finalScore = skipped ? skipped.state : scoreState;
     if (currentIdx + 1 < total) {
+      let following: Question | undefined = questions[currentIdx + 1];
+      if (mode === "adaptive") {
+        const asked = questions[currentIdx];
+        const rng = createRng(hashSeed(`${seed}:${questions.length}`));
+        const upcoming = pickAdaptive(topicPool, nextDifficulty(asked.difficulty, gradeResponse(current, response).correct), questions, rng);
+        if (upcoming) setQuestions([...questions, upcoming]);
+        following = upcoming ?? following;
+      }
+      if (following) narration.speak(questionLines(following), { delayMs: NARRATION_DELAY_MS });
       setCurrentIdx(i => i + 1);
-      setSelected(null);
+      setResponse(null);
+      countdown.reset();
     } else {
-      // Save to leaderboard
-      const entry: ScoreEntry = { name: playerName.trim(), score, date: new Date().toISOString() };
-      const lb = readLeaderboard();
-      const updated = [...lb, entry].sort((a, b) => b.score - a.score).slice(0, 20);
-      writeLeaderboard(updated);
-      const newRank = updated.findIndex(e => e === entry) + 1;
-      setRank(newRank || null);
+      const game = {
+        answers: skipped ? [...answers, skipped.record] : answers,
+        state: finalScore,
+        difficulty: mode === "practice" || mode === "daily" ? null : boardDifficulty,
+        daily: mode === "daily" ? today : undefined,
+      };
+      narration.cancel();
+      setUnlocked(profiles.recordGame(playerName, game, pool));
+      if (mode !== "practice") saveScore(finalScore);
       setStep("result");
       sfx.levelUp();
     }
   };
 
+  const saveScore = (finalScore: ScoreState) => {
+    const entry: ScoreEntry = {
+      name: playerName.trim(),
+      score: finalScore.total,
+      date: new Date().toISOString(),
+      difficulty: mode === "daily" ? null : boardDifficulty,
+      topic: mode === "daily" ? "all" : topic,
+      questionCount: total,
+      accuracy: total ? finalScore.correct / total : 0,
+      durationMs: Date.now() - startedAt,
+      team: teamName || null,
+      daily: mode === "daily" ? today : null,
+    };
+    setSavedEntry(entry);
+    submitScore.mutate(entry, {
+      onSuccess: ({ queued }) => {
+        if (queued) toast({ title: t("leaderboard.queued"), description: t("leaderboard.queuedHint") });
+      },
+      onError: () => toast({ title: t("leaderboard.submitFailed"), variant: "destructive" }),
+    });
+  };
+
+  useAnswerKeys({
+    enabled: step === "playing" && !!current,
+    optionCount: current ? keyOptionCount(current) : 0,
+    onSelect: i => handleAnswer([i]),
+    onNext: next,
+  });
+
+  const leaveChallenge = () => {
+    setChallenge(null);
+    setParams({}, { replace: true });
+    setSeed(randomSeed());
+  };
+
   const restart = () => {
+    sfx.click();
+    leaveChallenge();
+    setStep("setup");
+  };
+
+  // Keeps the seed, so starting again deals the same questions with the same option order
+  const replay = () => {
     sfx.click();
     setStep("setup");
   };
 
-  const progressValue = total ? Math.round(((currentIdx) / total) * 100) : 0;
+  const shareChallenge = async () => {
+    const url = challengeUrl({ questions: questions.map(q => q.id), seed, difficulty, topic, timed, from: playerName.trim(), score });
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: t("challenge.shareTitle"), text: t("challenge.shareText", { score }), url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      toast({ title: t("challenge.copied"), description: t("challenge.copiedHint") });
+    } catch (err) {
+      // Closing the share sheet isn't a failure
+      if ((err as Error).name === "AbortError") return;
+      toast({ title: t("challenge.copyFailed"), description: url });
+    }
+  };
 
   return (
     <main className="container py-8">
       <header className="mb-6 flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-semibold">Health Quest — HIV, PrEP & Reproductive Health Trivia</h1>
-          <p className="text-muted-foreground">Learn by playing. Choose your path and test your knowledge.</p>
+          <h1 className="text-3xl font-semibold">{t("game.title")}</h1>
+          <p className="text-muted-foreground">{t("game.subtitle")}</p>
         </div>
         <div className="flex gap-2">
+          <LanguageSwitcher />
+          <DisplaySettingsMenu />
           <Button variant={soundOn ? "secondary" : "outline"} onClick={() => setSoundOn(v => !v)}>
-            {soundOn ? "Sound: On" : "Sound: Off"}
+            {soundOn ? t("game.soundOn") : t("game.soundOff")}
+          </Button>
+          <Button asChild variant="ghost">
+            <Link to="/leaderboard">{t("leaderboard.title")}</Link>
+          </Button>
+          <Button asChild variant="ghost">
+            <Link to="/profile">{t("profile.link")}</Link>
           </Button>
           <Button asChild variant="ghost">
-            <Link to="/">Home</Link>
+            <Link to="/">{t("game.home")}</Link>
           </Button>
         </div>
       </header>
@@ -190,89 +421,173 @@ export default function Game() {
         <section className="grid gap-6 md:grid-cols-2">
           <Card className="hover-scale">
             <CardHeader>
-              <CardTitle>Get Ready</CardTitle>
-              <CardDescription>Set your name and difficulty.</CardDescription>
+              <CardTitle>{t("setup.title")}</CardTitle>
+              <CardDescription>{t("setup.description")}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              {challenge && (
+                <Alert>
+                  <Swords className="h-4 w-4" aria-hidden />
+                  <AlertTitle>{challenge.from ? t("challenge.from", { name: challenge.from }) : t("challenge.received")}</AlertTitle>
+                  <AlertDescription className="space-y-2">
+                    <p>{challenge.score !== undefined ? t("challenge.beat", { score: challenge.score }) : t("challenge.sameGame")}</p>
+                    {!questionPool.isLoading && challengeMissing > 0 && (
+                      <p className="font-medium text-destructive">{t("challenge.missing", { count: challengeMissing })}</p>
+                    )}
+                    {questionPool.bundledStatus === "failed" && !challenge.questions.length && (
+                      <p className="font-medium text-destructive">{t("challenge.unavailable")}</p>
+                    )}
+                    <Button size="sm" variant="outline" onClick={leaveChallenge}>{t("challenge.leave")}</Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <div className="space-y-2">
-                <label className="text-sm">Player name</label>
-                <Input placeholder="e.g., Ada" value={playerName} onChange={(e) => setPlayerName(e.target.value)} />
+                <label className="text-sm">{t("setup.playerName")}</label>
+                <PlayerPicker profiles={profiles.profiles} name={playerName} onChange={choosePlayer} />
               </div>
 
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <label htmlFor="team-mode" className="text-sm">{t("teams.mode")}</label>
+                  <p className="text-xs text-muted-foreground">{t("teams.modeHint")}</p>
+                </div>
+                <Switch id="team-mode" checked={teamMode} onCheckedChange={setTeamMode} />
+              </div>
+              {teamMode && (
+                <div className="space-y-2">
+                  <label htmlFor="team-name" className="text-sm">{t("teams.team")}</label>
+                  <Input
+                    id="team-name"
+                    list="known-teams"
+                    placeholder={t("teams.namePlaceholder")}
+                    value={team}
+                    onChange={(e) => setTeam(e.target.value)}
+                  />
+                  <datalist id="known-teams">
+                    {knownTeams.map(name => <option key={name} value={name} />)}
+                  </datalist>
+                </div>
+              )}
+
               <div className="space-y-2">
-                <label className="text-sm">Difficulty</label>
-                <Select value={difficulty} onValueChange={(v) => setDifficulty(v as Difficulty)}>
+                <label className="text-sm">{t("setup.mode")}</label>
+                <Select value={mode} onValueChange={(v) => setMode(v as GameMode)} disabled={!!challenge}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select difficulty" />
+                    <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="easy">Easy</SelectItem>
-                    <SelectItem value="medium">Medium</SelectItem>
-                    <SelectItem value="hard">Hard</SelectItem>
+                    <SelectItem value="quiz">{t("setup.modeQuiz")}</SelectItem>
+                    <SelectItem value="adaptive">{t("setup.modeAdaptive")}</SelectItem>
+                    <SelectItem value="practice">{t("setup.modePractice")}</SelectItem>
+                    <SelectItem value="daily">{t("daily.mode")}</SelectItem>
                   </SelectContent>
                 </Select>
+                {mode === "adaptive" && <p className="text-xs text-muted-foreground">{t("setup.adaptiveHint")}</p>}
+                {mode === "practice" && <p className="text-xs text-muted-foreground">{t("setup.practiceHint")}</p>}
+                {mode === "daily" && (
+                  <p className="text-xs text-muted-foreground">{dailyPlayed ? t("daily.alreadyPlayedHint") : t("daily.hint")}</p>
+                )}
+                {mode === "daily" && questionPool.bundledStatus === "failed" && (
+                  <p className="text-xs font-medium text-destructive">{t("daily.unavailable")}</p>
+                )}
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm">{t("setup.topic")}</label>
+                <Select value={topic} onValueChange={(v) => setTopic(v as Topic)} disabled={!!challenge || mode === "daily"}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t("setup.topicPlaceholder")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t("topic.all")}</SelectItem>
+                    {CATEGORIES.map(c => (
+                      <SelectItem key={c} value={c}>{t(`topic.${c}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm">{mode === "adaptive" ? t("setup.startingDifficulty") : t("setup.difficulty")}</label>
+                <Select value={difficulty} onValueChange={(v) => setDifficulty(v as Difficulty)} disabled={mode === "practice" || mode === "daily" || !!challenge}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t("setup.difficultyPlaceholder")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DIFFICULTIES.map(d => (
+                      <SelectItem key={d} value={d}>{t(`difficulty.${d}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <label htmlFor="timed-mode" className="text-sm">{t("setup.timed")}</label>
+                  <p className="text-xs text-muted-foreground">{t("setup.timedHint", { seconds: TIMED_QUESTION_SECONDS })}</p>
+                </div>
+                <Switch id="timed-mode" checked={timedPlay} onCheckedChange={setTimed} disabled={!!challenge || mode === "daily"} />
+              </div>
+
+              <NarrationSettings narration={narration} />
+
               <div className="flex items-center justify-between pt-2">
-                <span className="text-sm text-muted-foreground">10 questions • {DIFFICULTY_POINTS[difficulty]} pts each</span>
-                <Button onClick={handleStart}>Start game</Button>
+                <span className="text-sm text-muted-foreground">
+                  {mode === "practice"
+                    ? t("setup.practiceSummary", { count: Math.min(topicPool.length, PRACTICE_SET_SIZE), due: practiceDue })
+                    : mode === "adaptive"
+                    ? t("setup.adaptiveSummary", { count: Math.min(topicPool.length, ADAPTIVE_GAME_LENGTH) })
+                    : mode === "daily"
+                    ? t("daily.summary", { count: Math.min(sharedPool.length, DAILY_SIZE) })
+                    : t("setup.summary", { count: filtered.length, points: DIFFICULTY_POINTS[difficulty] })}
+                </span>
+                <Button onClick={handleStart} disabled={!canStart}>
+                  {questionPool.isLoading ? t("setup.loadingBanks") : t("setup.start")}
+                </Button>
               </div>
+              <p className="text-sm text-muted-foreground">
+                {t("setup.groupPrompt")}{" "}
+                <Link to="/hotseat" className="font-medium text-foreground underline-offset-4 hover:underline">{t("setup.groupLink")}</Link>
+              </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader>
-              <CardTitle>How it works</CardTitle>
-              <CardDescription>Answer questions to earn points and learn.</CardDescription>
+              <CardTitle>{t("howTo.title")}</CardTitle>
+              <CardDescription>{t("howTo.description")}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-2 text-sm text-muted-foreground">
-              <p>• Mixed questions from HIV self-testing, PrEP, and reproductive health.</p>
-              <p>• Select difficulty to adjust challenge and points.</p>
-              <p>• Answer 10 questions, then save your score to the local leaderboard.</p>
+              <p>{t("howTo.topics")}</p>
+              <p>{t("howTo.difficulty")}</p>
+              <p>{t("howTo.streaks")}</p>
+              <p>{t("howTo.practice")}</p>
+              <p>{t("howTo.leaderboard")}</p>
             </CardContent>
           </Card>
+
+          <QuestionBanks {...questionPool} />
         </section>
       )}
 
       {step === "playing" && current && (
         <section className="max-w-2xl mx-auto">
-          <Card className="hover-scale">
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="text-xl">Question {currentIdx + 1} of {total}</CardTitle>
-                <span className="text-sm text-muted-foreground">All Topics • {difficulty.toUpperCase()}</span>
-              </div>
-              <div className="pt-2">
-                <Progress value={progressValue} />
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <p className="text-lg font-medium">{current.text}</p>
-              <div className="grid gap-3">
-                {current.options.map((opt, i) => {
-                  const isPicked = selected === i;
-                  const isCorrect = selected !== null && i === current.answerIndex;
-                  const isWrong = selected !== null && isPicked && i !== current.answerIndex;
-                  return (
-                    <Button
-                      key={i}
-                      variant={isCorrect ? "secondary" : isWrong ? "destructive" : "outline"}
-                      className="justify-start"
-                      onClick={() => handleOption(i)}
-                      disabled={selected !== null}
-                    >
-                      {opt}
-                    </Button>
-                  );
-                })}
-              </div>
-
-              <div className="flex items-center justify-between pt-2">
-                <span className="text-sm text-muted-foreground">Score: {score}</span>
-                <Button onClick={next}>{currentIdx + 1 < total ? "Next" : "Finish"}</Button>
-              </div>
-            </CardContent>
-          </Card>
+          <QuestionCard
+            question={current}
+            index={currentIdx}
+            total={total}
+            topic={topic}
+            response={response}
+            onAnswer={handleAnswer}
+            score={score}
+            onNext={next}
+            countdown={timedPlay ? { remainingMs: countdown.remainingMs, limitMs } : undefined}
+            streak={scoreState.streak}
+            bonusRound={isBonusRound(currentIdx)}
+            manageFocus
+            onReplay={narration.supported ? narration.replay : undefined}
+          />
         </section>
       )}
 
@@ -280,67 +595,239 @@ export default function Game() {
         <section className="max-w-3xl mx-auto">
           <Card className="hover-scale">
             <CardHeader>
-              <CardTitle>Great job, {playerName}!</CardTitle>
-              <CardDescription>Your final score is {score}.</CardDescription>
+              <CardTitle>{t("result.title", { name: playerName })}</CardTitle>
+              <CardDescription>{t("result.finalScore", { score })}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              <LeaderboardHighlight name={playerName} score={score} rank={rank} />
+              <AchievementUnlocks ids={unlocked} />
+              {challenge?.score !== undefined && <ChallengeResult name={challenge.from} theirs={challenge.score} yours={score} />}
+              {mode === "practice" ? (
+                <p className="text-sm text-muted-foreground">{t("result.practiceNote")}</p>
+              ) : (
+                <LeaderboardHighlight name={playerName} score={score} rank={rank} topic={savedEntry?.topic ?? topic} />
+              )}
+              {mode !== "practice" && savedEntry?.team && (
+                <p className="text-sm text-muted-foreground">
+                  {t("teams.playedFor", { team: savedEntry.team })}{" "}
+                  <Link
+                    to={`/leaderboard?view=teams&team=${encodeURIComponent(savedEntry.team)}`}
+                    className="font-medium text-foreground underline-offset-4 hover:underline"
+                  >
+                    {t("teams.standingsLink")}
+                  </Link>
+                </p>
+              )}
+              <ScoreBreakdownList score={scoreState} />
+              {mode === "adaptive" && <DifficultyPath answers={answers} />}
 
               <div className="flex items-center justify-between">
-                <Button variant="secondary" onClick={restart}>Play again</Button>
+                <div className="flex gap-2">
+                  <Button variant="secondary" onClick={restart}>{t("result.playAgain")}</Button>
+                  {mode !== "daily" && <Button variant="outline" onClick={replay}>{t("result.replay")}</Button>}
+                  {mode === "quiz" && <Button variant="outline" onClick={shareChallenge}>{t("challenge.share")}</Button>}
+                </div>
                 <Button asChild>
-                  <Link to="/">Back to home</Link>
+                  <Link to="/">{t("result.backHome")}</Link>
                 </Button>
               </div>
             </CardContent>
           </Card>
 
-          <LeaderboardList highlightName={playerName} />
+          <AnswerReview answers={answers} />
+
+          {mode === "daily" && (
+            <div className="mt-6">
+              <h2 className="text-xl font-semibold mb-3">{t("daily.boardTitle")}</h2>
+              <DailyBoard day={today} highlightName={playerName} limit={10} />
+              <div className="mt-3 text-end">
+                <Button asChild variant="link">
+                  <Link to="/leaderboard?view=daily">{t("leaderboard.viewAll")}</Link>
+                </Button>
+              </div>
+            </div>
+          )}
+          {(mode === "quiz" || mode === "adaptive") && (
+            <>
+              <LeaderboardList highlightName={playerName} initialFilter={{ difficulty: boardDifficulty, topic }} />
+              <div className="mt-3 text-end">
+                <Button asChild variant="link">
+                  <Link to="/leaderboard">{t("leaderboard.viewAll")}</Link>
+                </Button>
+              </div>
+            </>
+          )}
         </section>
       )}
     </main>
   );
 }
 
-function LeaderboardHighlight({ name, score, rank }: { name: string; score: number; rank: number | null }) {
+function QuestionBanks({
+  pool,
+  bundled,
+  imported,
+  importFile,
+  removeBank,
+}: ReturnType<typeof useQuestionPool>) {
+  const { t } = useI18n();
+  const [lastImport, setLastImport] = useState<LoadedBank | null>(null);
+  const problems = [...bundled, ...(lastImport ? [lastImport] : [])].filter(b => b.errors.length);
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const bank = await importFile(file);
+    setLastImport(bank);
+    toast({
+      title: bank.questions.length ? t("banks.imported", { count: bank.questions.length }) : t("banks.nothingImported"),
+      description: bank.errors.length ? t("banks.problemsFound", { count: bank.errors.length, file: file.name }) : bank.name,
+    });
+  };
+
   return (
-    <div className="rounded-lg border bg-card p-4 text-center shadow-sm">
-      <p className="text-sm text-muted-foreground mb-2">Your placement</p>
-      <div className="relative mx-auto h-24 w-full max-w-md overflow-hidden">
-        {/* Simple rank animation: slide from bottom */}
-        <div className="absolute inset-0 flex items-end justify-center">
-          <div className="translate-y-8 opacity-0 animate-[fade-in_0.4s_ease-out_forwards]">
-            <span className="text-4xl font-bold">#{rank ?? "-"}</span>
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>{t("banks.title")}</CardTitle>
+        <CardDescription>{t("banks.description", { count: pool.length })}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Input type="file" accept="application/json,.json" onChange={onFile} />
+          <Button asChild variant="outline">
+            <Link to="/editor">{t("banks.openEditor")}</Link>
+          </Button>
+        </div>
+
+        {(bundled.length > 0 || imported.length > 0) && (
+          <ul className="space-y-2 text-sm">
+            {bundled.map(b => (
+              <li key={b.source} className="flex items-center justify-between">
+                <span>{b.name}</span>
+                <span className="text-muted-foreground">{t("banks.questionCount", { count: b.questions.length })} • {t("banks.bundled")}</span>
+              </li>
+            ))}
+            {imported.map(b => (
+              <li key={b.source} className="flex items-center justify-between gap-2">
+                <span>{b.name}</span>
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  {t("banks.questionCount", { count: b.questions.length })}
+                  <Button size="sm" variant="ghost" onClick={() => removeBank(b.source)}>{t("banks.remove")}</Button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {problems.map(b => (
+          <Alert key={b.source} variant="destructive">
+            <AlertTitle>{t("banks.problems", { name: b.name, count: b.errors.length })}</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc ps-4">
+                {b.errors.map((issue, i) => (
+                  <li key={i}>{formatBankIssue(issue)}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ScoreBreakdownList({ score }: { score: ScoreState }) {
+  const { t } = useI18n();
+  const { breakdown } = score;
+  const lines: { key: MessageKey; value: number }[] = [
+    { key: "result.breakdownBase", value: breakdown.base },
+    { key: "result.breakdownStreak", value: breakdown.streak },
+    { key: "result.breakdownSpeed", value: breakdown.speed },
+    { key: "result.breakdownBonus", value: breakdown.bonus },
+    { key: "result.breakdownPenalty", value: -breakdown.penalty },
+  ];
+  return (
+    <div className="rounded-lg border p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="font-semibold">{t("result.breakdown")}</h2>
+        <span className="text-sm text-muted-foreground">{t("result.bestStreak", { count: score.bestStreak })}</span>
+      </div>
+      <dl className="space-y-1 text-sm">
+        {lines.map(line => (
+          <div key={line.key} className="flex justify-between">
+            <dt className="text-muted-foreground">{t(line.key)}</dt>
+            <dd className="tabular-nums">{line.value > 0 ? `+${line.value}` : line.value < 0 ? `−${-line.value}` : 0}</dd>
           </div>
+        ))}
+        <div className="flex justify-between border-t pt-1 font-semibold">
+          <dt>{t("result.breakdownTotal")}</dt>
+          <dd className="tabular-nums">{score.total}</dd>
         </div>
+      </dl>
+    </div>
+  );
+}
+
+function DifficultyPath({ answers }: { answers: AnswerRecord[] }) {
+  const { t } = useI18n();
+  const peak = answers.reduce<Difficulty | null>(
+    (best, a) => (best && DIFFICULTIES.indexOf(best) >= DIFFICULTIES.indexOf(a.question.difficulty) ? best : a.question.difficulty),
+    null
+  );
+  return (
+    <div className="rounded-lg border p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="font-semibold">{t("result.difficultyPath")}</h2>
+        {peak && <span className="text-sm text-muted-foreground">{t("result.difficultyPeak", { difficulty: t(`difficulty.${peak}`) })}</span>}
       </div>
-      <p className="mt-2 text-sm">{name} • {score} pts</p>
+      <ol className="flex flex-wrap items-center gap-1">
+        {answers.map((a, i) => (
+          <li key={i} className="flex items-center gap-1">
+            {i > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground rtl:-scale-x-100" aria-hidden />}
+            <Badge variant={isMissed(a) ? "destructive" : "secondary"}>{t(`difficulty.${a.question.difficulty}`)}</Badge>
+          </li>
+        ))}
+      </ol>
+      <p className="mt-2 text-xs text-muted-foreground">{t("result.difficultyPathHint")}</p>
     </div>
   );
 }
 
-function LeaderboardList({ highlightName }: { highlightName: string }) {
-  const list = useMemo(() => readLeaderboard(), []);
+function ChallengeResult({ name, theirs, yours }: { name?: string; theirs: number; yours: number }) {
+  const { t } = useI18n();
+  const verdict = yours > theirs ? t("challenge.won") : yours < theirs ? t("challenge.lost") : t("challenge.tied");
   return (
-    <div className="mt-6">
-      <h2 className="text-xl font-semibold mb-3">Leaderboard</h2>
-      <div className="rounded-lg border overflow-hidden">
-        <ul>
-          {list.slice(0, 10).map((e, idx) => (
-            <li
-              key={e.name + e.date}
-              className={`flex items-center justify-between px-4 py-3 ${e.name === highlightName ? "bg-accent" : ""}`}
-              style={{ transition: "transform 300ms, background 300ms" }}
-            >
-              <div className="flex items-center gap-3">
-                <span className="text-sm w-6 text-center">{idx + 1}</span>
-                <span className="font-medium">{e.name}</span>
-              </div>
-              <span className="text-sm text-muted-foreground">{e.score} pts</span>
-            </li>
-          ))}
-        </ul>
+    <div className="rounded-lg border bg-card p-4 text-center shadow-sm">
+      <p className="text-sm text-muted-foreground">{t("challenge.resultTitle")}</p>
+      <div className="my-3 flex items-start justify-center gap-10">
+        <div>
+          <p className="text-3xl font-bold tabular-nums">{yours}</p>
+          <p className="text-sm text-muted-foreground">{t("challenge.you")}</p>
+        </div>
+        <div>
+          <p className="text-3xl font-bold tabular-nums">{theirs}</p>
+          <p className="text-sm text-muted-foreground">{name ?? t("challenge.challenger")}</p>
+        </div>
+      </div>
+      <p className="font-medium">{verdict}</p>
+    </div>
+  );
+}
+
+function LeaderboardHighlight({ name, score, rank, topic }: { name: string; score: number; rank: number | null; topic: Topic }) {
+  const { t } = useI18n();
+  return (
+    <div className="rounded-lg border bg-card p-4 text-center shadow-sm">
+      <p className="text-sm text-muted-foreground mb-2">{t("result.placement")}</p>
+      <div className="relative mx-auto h-24 w-full max-w-md overflow-hidden">
+        {/* Simple rank animation: slide from bottom */}
+        <div className="absolute inset-0 flex items-end justify-center">
+          <div className="translate-y-8 opacity-0 animate-[fade-in_0.4s_ease-out_forwards]">
+            <span className="text-4xl font-bold">#{rank ?? "-"}</span>
+          </div>
+        </div>
       </div>
+      <p className="mt-2 text-sm">{name} • {t(`topic.${topic}`)} • {t("result.points", { score })}</p>
     </div>
   );
 }
@@ -0,0 +1,345 @@
+import { useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { DisplaySettingsMenu } from "@/components/DisplaySettingsMenu";
+import { AnswerDistribution } from "@/components/live/AnswerDistribution";
+import { QuestionIllustration } from "@/components/game/QuestionIllustration";
+import { CATEGORIES, DIFFICULTIES, isChoice, type ChoiceQuestion, type Difficulty, type Topic } from "@/data/questions";
+import { toast } from "@/hooks/use-toast";
+import { useCountdown } from "@/hooks/use-countdown";
+import { useLiveSocket } from "@/hooks/use-live-socket";
+import { usePageSEO } from "@/hooks/use-page-seo";
+import { useQuestionPool } from "@/hooks/use-question-pool";
+import { useI18n } from "@/i18n/context";
+import {
+  answerDistribution,
+  livePoints,
+  rankStandings,
+  stripAnswer,
+  LIVE_QUESTION_MS,
+  type HostInbox,
+  type HostMessage,
+  type LivePlayer,
+} from "@/lib/live";
+import { createRng, randomSeed, shuffle } from "@/lib/random";
+import { arrangeOptions, optionOrder } from "@/lib/option-order";
+
+const QUESTION_COUNTS = [5, 10, 15];
+
+type Phase = "setup" | "lobby" | "question" | "reveal" | "end";
+
+interface LiveAnswer {
+  choice: number;
+  elapsedMs: number;
+}
+
+export default function Host() {
+  const { t, localize } = useI18n();
+  usePageSEO(t("host.seoTitle"), t("host.seoDescription"));
+
+  const { pool } = useQuestionPool();
+  const [topic, setTopic] = useState<Topic>("all");
+  const [difficulty, setDifficulty] = useState<Difficulty>("easy");
+  const [count, setCount] = useState(10);
+
+  const [phase, setPhase] = useState<Phase>("setup");
+  const [room, setRoom] = useState<string | null>(null);
+  const [players, setPlayers] = useState<LivePlayer[]>([]);
+  const [questions, setQuestions] = useState<ChoiceQuestion[]>([]);
+  const [index, setIndex] = useState(0);
+  const [seed, setSeed] = useState(randomSeed);
+  const [sentAt, setSentAt] = useState(0);
+  // Keyed by player id, for the current question only. Answers can arrive faster than
+  // React re-renders, so the ref is what gets added to and scored; the state is for display
+  const [answers, setAnswers] = useState<Record<string, LiveAnswer>>({});
+  const answersRef = useRef<Record<string, LiveAnswer>>({});
+  // The question taking answers, if any. Cleared by the first reveal, so the clock and a last answer can't both score it
+  const openRef = useRef<number | null>(null);
+  // Keyed by player name so a player who reconnects keeps their score
+  const [scores, setScores] = useState<Record<string, number>>({});
+
+  const candidates = useMemo(
+    () => pool.filter(isChoice).filter(q => q.difficulty === difficulty && (topic === "all" || q.category === topic)),
+    [pool, difficulty, topic]
+  );
+  const order = questions[index] ? optionOrder(questions[index], seed) : [];
+  const question = questions[index] && arrangeOptions(localize(questions[index]), order);
+  const standings = useMemo(() => rankStandings(scores), [scores]);
+  // Players answer with bank indexes; the board lists the options as they were shown
+  const bankCounts = answerDistribution(Object.values(answers).map(a => a.choice), order.length);
+  const counts = order.map(i => bankCounts[i]);
+
+  const socket = useLiveSocket<HostInbox, { type: "host" } | HostMessage>((msg) => {
+    // Only answers come from players; a relay notice carrying a playerId was forged by one
+    if ("playerId" in msg && msg.type !== "answer") return;
+    switch (msg.type) {
+      case "room":
+        setRoom(msg.code);
+        setPhase("lobby");
+        break;
+      case "players":
+        setPlayers(msg.players);
+        setScores(prev => ({ ...Object.fromEntries(msg.players.map(p => [p.name, 0])), ...prev }));
+        break;
+      case "answer": {
+        // First answer counts; late ones for an earlier question are dropped
+        if (msg.index !== openRef.current || answersRef.current[msg.playerId]) break;
+        const next = { ...answersRef.current, [msg.playerId]: { choice: msg.choice, elapsedMs: Date.now() - sentAt } };
+        answersRef.current = next;
+        setAnswers(next);
+        // Everyone has answered: no need to wait for the clock
+        if (players.every(p => next[p.id])) reveal();
+        break;
+      }
+      case "error":
+        toast({ title: t("live.error"), variant: "destructive" });
+        break;
+    }
+  });
+
+  const countdown = useCountdown(LIVE_QUESTION_MS, phase === "question", () => reveal());
+
+  const openRoom = () => {
+    if (!candidates.length) {
+      toast({
+        title: t("setup.noQuestions"),
+        description: t("setup.noQuestionsHint", { difficulty: t(`difficulty.${difficulty}`), topic: t(`topic.${topic}`) }),
+      });
+      return;
+    }
+    const quizSeed = randomSeed();
+    setSeed(quizSeed);
+    setQuestions(shuffle(candidates, createRng(quizSeed)).slice(0, count));
+    setScores({});
+    socket.connect({ type: "host" });
+  };
+
+  const ask = (i: number) => {
+    setIndex(i);
+    answersRef.current = {};
+    openRef.current = i;
+    setAnswers({});
+    setSentAt(Date.now());
+    countdown.reset();
+    socket.send({
+      type: "question",
+      index: i,
+      total: questions.length,
+      question: stripAnswer(questions[i]),
+      order: optionOrder(questions[i], seed),
+      limitMs: LIVE_QUESTION_MS,
+    });
+    setPhase("question");
+  };
+
+  const reveal = () => {
+    if (openRef.current === null) return;
+    openRef.current = null;
+    const raw = questions[index];
+    const names = Object.fromEntries(players.map(p => [p.id, p.name]));
+    const next = { ...scores };
+    for (const [playerId, a] of Object.entries(answersRef.current)) {
+      const name = names[playerId];
+      if (name) next[name] = (next[name] ?? 0) + livePoints(raw, a.choice, a.elapsedMs);
+    }
+    setScores(next);
+    socket.send({ type: "reveal", index, question: raw, standings: rankStandings(next) });
+    setPhase("reveal");
+  };
+
+  const advance = () => {
+    if (index + 1 < questions.length) {
+      ask(index + 1);
+    } else {
+      socket.send({ type: "end", standings });
+      setPhase("end");
+    }
+  };
+
+  const close = () => {
+    openRef.current = null;
+    socket.disconnect();
+    setRoom(null);
+    setPlayers([]);
+    setPhase("setup");
+  };
+
+  const joinUrl = room ? `${window.location.origin}/join?code=${room}` : "";
+
+  return (
+    <main className="container py-8">
+      <header className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">{t("host.title")}</h1>
+          <p className="text-muted-foreground">{t("host.subtitle")}</p>
+        </div>
+        <div className="flex gap-2">
+          <LanguageSwitcher />
+          <DisplaySettingsMenu />
+          <Button asChild variant="ghost">
+            <Link to="/">{t("game.home")}</Link>
+          </Button>
+        </div>
+      </header>
+
+      {socket.status === "closed" && phase !== "setup" && (
+        <p className="mb-4 rounded-lg border border-destructive p-3 text-sm text-destructive">{t("live.disconnected")}</p>
+      )}
+
+      {phase === "setup" && (
+        <Card className="max-w-xl mx-auto">
+          <CardHeader>
+            <CardTitle>{t("host.setupTitle")}</CardTitle>
+            <CardDescription>{t("host.setupHint")}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm">{t("setup.topic")}</label>
+              <Select value={topic} onValueChange={(v) => setTopic(v as Topic)}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t("setup.topicPlaceholder")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t("topic.all")}</SelectItem>
+                  {CATEGORIES.map(c => (
+                    <SelectItem key={c} value={c}>{t(`topic.${c}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm">{t("setup.difficulty")}</label>
+              <Select value={difficulty} onValueChange={(v) => setDifficulty(v as Difficulty)}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t("setup.difficultyPlaceholder")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIFFICULTIES.map(d => (
+                    <SelectItem key={d} value={d}>{t(`difficulty.${d}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm">{t("host.questionCount")}</label>
+              <Select value={String(count)} onValueChange={(v) => setCount(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUESTION_COUNTS.map(n => (
+                    <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-sm text-muted-foreground">{t("hotseat.available", { count: candidates.length })}</span>
+              <Button onClick={openRoom} disabled={socket.status === "connecting"}>{t("host.openRoom")}</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {phase === "lobby" && room && (
+        <Card className="max-w-2xl mx-auto text-center">
+          <CardHeader>
+            <CardDescription>{t("host.joinAt", { url: joinUrl })}</CardDescription>
+            <CardTitle className="text-6xl tracking-widest">{room}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground">{t("host.playersJoined", { count: players.length })}</p>
+            <ul className="flex flex-wrap justify-center gap-2">
+              {players.map(p => (
+                <li key={p.id} className="rounded-full border px-3 py-1">{p.name}</li>
+              ))}
+            </ul>
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={close}>{t("host.closeRoom")}</Button>
+              <Button onClick={() => ask(0)} disabled={!players.length}>{t("host.start")}</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {(phase === "question" || phase === "reveal") && question && (
+        <section className="grid gap-6 md:grid-cols-3">
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardDescription>{t("play.questionOf", { number: index + 1, total: questions.length })}</CardDescription>
+                <span className="text-sm text-muted-foreground">{t("host.room", { code: room ?? "" })}</span>
+              </div>
+              <CardTitle className="text-2xl">{question.text}</CardTitle>
+              {phase === "question" && (
+                <div className="flex items-center gap-3 pt-2">
+                  <Progress className="h-2" value={(countdown.remainingMs / LIVE_QUESTION_MS) * 100} />
+                  <span className="w-16 shrink-0 text-end text-sm tabular-nums text-muted-foreground">
+                    {t("play.secondsLeft", { seconds: Math.ceil(countdown.remainingMs / 1000) })}
+                  </span>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {question.image && <QuestionIllustration key={question.image.src} image={question.image} />}
+              <AnswerDistribution
+                options={question.options}
+                counts={counts}
+                correctIndex={phase === "reveal" ? question.answerIndex : undefined}
+              />
+              {phase === "reveal" && question.explanation && <p className="text-muted-foreground">{question.explanation}</p>}
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  {t("host.answered", { count: Object.keys(answers).length, total: players.length })}
+                </span>
+                {phase === "question" ? (
+                  <Button onClick={() => reveal()}>{t("host.reveal")}</Button>
+                ) : (
+                  <Button onClick={advance}>{index + 1 < questions.length ? t("play.next") : t("play.finish")}</Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+          <Standings standings={standings} />
+        </section>
+      )}
+
+      {phase === "end" && (
+        <section className="max-w-xl mx-auto space-y-4">
+          <Standings standings={standings} />
+          <div className="flex justify-center">
+            <Button onClick={close}>{t("host.newQuiz")}</Button>
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
+
+function Standings({ standings }: { standings: { name: string; score: number; rank: number }[] }) {
+  const { t } = useI18n();
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("leaderboard.title")}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-1">
+          {standings.map(s => (
+            <li key={s.name} className="flex items-center justify-between">
+              <span className="flex items-center gap-3">
+                <span className="w-6 text-center text-sm">{s.rank}</span>
+                {s.name}
+              </span>
+              <span className="text-sm tabular-nums">{t("result.points", { score: s.score })}</span>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,399 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { QuestionCard } from "@/components/game/QuestionCard";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { DisplaySettingsMenu } from "@/components/DisplaySettingsMenu";
+import { CATEGORIES, DIFFICULTIES, type Difficulty, type Question, type Topic } from "@/data/questions";
+import { toast } from "@/hooks/use-toast";
+import { useAnswerKeys } from "@/hooks/use-answer-keys";
+import { usePageSEO } from "@/hooks/use-page-seo";
+import { useQuestionPool } from "@/hooks/use-question-pool";
+import { useProfiles } from "@/hooks/use-profiles";
+import { useSubmitScore } from "@/hooks/use-leaderboard";
+import { useI18n } from "@/i18n/context";
+import type { AnswerOutcome } from "@/lib/answers";
+import { gradeResponse, keyOptionCount, type Response } from "@/lib/grading";
+import {
+  checkPlayers,
+  createSeats,
+  dealQuestions,
+  rankSeats,
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  QUESTIONS_PER_PLAYER_OPTIONS,
+  type Seat,
+} from "@/lib/hotseat";
+import type { ScoreEntry } from "@/lib/leaderboard";
+import { recordReview } from "@/lib/practice";
+import { isBonusRound, scoreAnswer } from "@/lib/scoring";
+import { createRng, randomSeed } from "@/lib/random";
+import { arrangeOptions, bankResponse, optionOrder } from "@/lib/option-order";
+
+type Phase = "setup" | "handoff" | "question" | "result";
+
+export default function HotSeat() {
+  const { t, localize } = useI18n();
+  usePageSEO(t("hotseat.seoTitle"), t("hotseat.seoDescription"));
+
+  const { pool } = useQuestionPool();
+  const profiles = useProfiles();
+  const submitScore = useSubmitScore();
+
+  const [names, setNames] = useState<string[]>(["", ""]);
+  const [topic, setTopic] = useState<Topic>("all");
+  const [difficulty, setDifficulty] = useState<Difficulty>("easy");
+  const [perPlayer, setPerPlayer] = useState(5);
+
+  const [phase, setPhase] = useState<Phase>("setup");
+  const [seats, setSeats] = useState<Seat[]>([]);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [turn, setTurn] = useState(0);
+  const [seed, setSeed] = useState(randomSeed);
+  const [response, setResponse] = useState<Response | null>(null);
+  const [turnStartedAt, setTurnStartedAt] = useState(0);
+
+  const candidates = useMemo(
+    () => pool.filter(q => q.difficulty === difficulty && (topic === "all" || q.category === topic)),
+    [pool, difficulty, topic]
+  );
+  const seatIdx = seats.length ? turn % seats.length : 0;
+  const seat = seats[seatIdx];
+  const ownIdx = seats.length ? Math.floor(turn / seats.length) : 0;
+  const ownTotal = seats.length ? questions.length / seats.length : 0;
+  // A player's last question only ends the game on the last turn of all
+  const nextLabel = turn + 1 < questions.length ? t("play.next") : t("play.finish");
+  const current = questions[turn] && arrangeOptions(localize(questions[turn]), optionOrder(questions[turn], seed));
+  const ranking = useMemo(() => rankSeats(seats), [seats]);
+  const winners = ranking.filter(r => r.rank === 1);
+
+  const handleStart = () => {
+    const issue = checkPlayers(names);
+    if (issue) {
+      toast({ title: t(`hotseat.${issue}`, { min: MIN_PLAYERS, max: MAX_PLAYERS }) });
+      return;
+    }
+    const next = createSeats(names);
+    const gameSeed = randomSeed();
+    const dealt = dealQuestions(candidates, next.length, perPlayer, createRng(gameSeed));
+    if (!dealt.length) {
+      toast({
+        title: t("setup.noQuestions"),
+        description: t("hotseat.notEnoughQuestions", { players: next.length }),
+      });
+      return;
+    }
+    next.forEach(s => profiles.ensure(s.name));
+    setSeats(next);
+    setSeed(gameSeed);
+    setQuestions(dealt);
+    setTurn(0);
+    setResponse(null);
+    setPhase("handoff");
+  };
+
+  /** Scores the current turn and returns the seats with it applied. */
+  const applyAnswer = (outcome: AnswerOutcome, picked: Response | null, credit = 0): Seat[] => {
+    const question = questions[turn];
+    const result = scoreAnswer(seat.score, {
+      difficulty: question.difficulty,
+      correct: outcome === "correct",
+      credit,
+      bonusRound: isBonusRound(ownIdx),
+    });
+    recordReview(seat.name, question.id, outcome === "correct");
+    const updated: Seat = {
+      ...seat,
+      score: result.state,
+      answers: [...seat.answers, { question, response: picked && bankResponse(picked, optionOrder(question, seed)), outcome, points: result.answer.points }],
+      durationMs: seat.durationMs + (Date.now() - turnStartedAt),
+    };
+    const next = seats.map((s, i) => (i === seatIdx ? updated : s));
+    setSeats(next);
+    return next;
+  };
+
+  const handleAnswer = (picked: Response) => {
+    if (response !== null) return;
+    setResponse(picked);
+    const { correct: isCorrect, credit } = gradeResponse(current, picked);
+    const next = applyAnswer(isCorrect ? "correct" : "wrong", picked, credit);
+    const points = next[seatIdx].answers[next[seatIdx].answers.length - 1].points;
+    toast({
+      title: isCorrect ? t("play.correctPoints", { points }) : points > 0 ? t("play.partlyRight", { points }) : t("play.wrong"),
+      description: current.explanation ?? (isCorrect ? t("play.correctFallback") : t("play.wrongFallback")),
+    });
+  };
+
+  const handleNext = () => {
+    // As in single-player games, a skipped question counts as a miss
+    const next = response === null ? applyAnswer("skipped", null) : seats;
+    setResponse(null);
+    if (turn + 1 < questions.length) {
+      setTurn(turn + 1);
+      setPhase("handoff");
+    } else {
+      finish(next);
+    }
+  };
+
+  useAnswerKeys({
+    enabled: phase === "question" && !!current,
+    optionCount: current ? keyOptionCount(current) : 0,
+    onSelect: i => handleAnswer([i]),
+    onNext: handleNext,
+  });
+
+  const finish = (finalSeats: Seat[]) => {
+    const date = new Date().toISOString();
+    const submissions = finalSeats.map(s => {
+      const entry: ScoreEntry = {
+        name: s.name,
+        score: s.score.total,
+        date,
+        difficulty,
+        topic,
+        questionCount: s.answers.length,
+        accuracy: s.answers.length ? s.score.correct / s.answers.length : 0,
+        durationMs: s.durationMs,
+        team: null,
+        daily: null,
+      };
+      profiles.recordGame(s.name, { answers: s.answers, state: s.score, difficulty }, pool);
+      return submitScore.mutateAsync(entry);
+    });
+    // One toast for the whole table, not one per player
+    Promise.allSettled(submissions).then(results => {
+      if (results.some(r => r.status === "rejected")) {
+        toast({ title: t("leaderboard.submitFailed"), variant: "destructive" });
+      } else if (results.some(r => r.status === "fulfilled" && r.value.queued)) {
+        toast({ title: t("leaderboard.queued"), description: t("leaderboard.queuedHint") });
+      }
+    });
+    setPhase("result");
+  };
+
+  const startTurn = () => {
+    setTurnStartedAt(Date.now());
+    setPhase("question");
+  };
+
+  const setName = (i: number, value: string) => setNames(list => list.map((n, j) => (j === i ? value : n)));
+
+  return (
+    <main className="container py-8">
+      <header className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">{t("hotseat.title")}</h1>
+          <p className="text-muted-foreground">{t("hotseat.subtitle")}</p>
+        </div>
+        <div className="flex gap-2">
+          <LanguageSwitcher />
+          <DisplaySettingsMenu />
+          <Button asChild variant="ghost">
+            <Link to="/game">{t("hotseat.solo")}</Link>
+          </Button>
+          <Button asChild variant="ghost">
+            <Link to="/">{t("game.home")}</Link>
+          </Button>
+        </div>
+      </header>
+
+      {phase === "setup" && (
+        <section className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("hotseat.players")}</CardTitle>
+              <CardDescription>{t("hotseat.playersHint", { min: MIN_PLAYERS, max: MAX_PLAYERS })}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {names.map((name, i) => (
+                <div key={i} className="flex gap-2">
+                  <Input
+                    placeholder={t("hotseat.playerPlaceholder", { number: i + 1 })}
+                    aria-label={t("hotseat.playerPlaceholder", { number: i + 1 })}
+                    value={name}
+                    onChange={(e) => setName(i, e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={t("hotseat.removePlayer")}
+                    disabled={names.length <= MIN_PLAYERS}
+                    onClick={() => setNames(list => list.filter((_, j) => j !== i))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" disabled={names.length >= MAX_PLAYERS} onClick={() => setNames(list => [...list, ""])}>
+                <Plus className="h-4 w-4" /> {t("hotseat.addPlayer")}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("setup.title")}</CardTitle>
+              <CardDescription>{t("hotseat.setupHint")}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm">{t("setup.topic")}</label>
+                <Select value={topic} onValueChange={(v) => setTopic(v as Topic)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t("setup.topicPlaceholder")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t("topic.all")}</SelectItem>
+                    {CATEGORIES.map(c => (
+                      <SelectItem key={c} value={c}>{t(`topic.${c}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm">{t("setup.difficulty")}</label>
+                <Select value={difficulty} onValueChange={(v) => setDifficulty(v as Difficulty)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t("setup.difficultyPlaceholder")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DIFFICULTIES.map(d => (
+                      <SelectItem key={d} value={d}>{t(`difficulty.${d}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm">{t("hotseat.questionsPerPlayer")}</label>
+                <Select value={String(perPlayer)} onValueChange={(v) => setPerPlayer(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUESTIONS_PER_PLAYER_OPTIONS.map(n => (
+                      <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between pt-2">
+                <span className="text-sm text-muted-foreground">{t("hotseat.available", { count: candidates.length })}</span>
+                <Button onClick={handleStart}>{t("setup.start")}</Button>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+      )}
+
+      {phase === "handoff" && seat && (
+        <section className="max-w-2xl mx-auto">
+          <Card>
+            <CardHeader className="text-center">
+              <CardDescription>{t("hotseat.turnOf", { number: ownIdx + 1, total: ownTotal })}</CardDescription>
+              <CardTitle className="text-2xl">{t("hotseat.passTo", { name: seat.name })}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Scoreboard seats={seats} activeIdx={seatIdx} />
+              <div className="text-center">
+                <Button size="lg" onClick={startTurn}>{t("hotseat.startTurn", { name: seat.name })}</Button>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+      )}
+
+      {phase === "question" && seat && current && (
+        <section className="max-w-2xl mx-auto space-y-3">
+          <p className="text-center text-lg font-medium">{t("hotseat.yourTurn", { name: seat.name })}</p>
+          <QuestionCard
+            question={current}
+            index={ownIdx}
+            total={ownTotal}
+            topic={topic}
+            response={response}
+            onAnswer={handleAnswer}
+            score={seat.score.total}
+            onNext={handleNext}
+            nextLabel={nextLabel}
+            streak={seat.score.streak}
+            bonusRound={isBonusRound(ownIdx)}
+            manageFocus
+          />
+        </section>
+      )}
+
+      {phase === "result" && (
+        <section className="max-w-3xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {winners.length === 1
+                  ? t("hotseat.resultTitle", { name: winners[0].seat.name })
+                  : t("hotseat.tie", { names: winners.map(w => w.seat.name).join(", ") })}
+              </CardTitle>
+              <CardDescription>{t("hotseat.resultHint")}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>{t("leaderboardPage.player")}</TableHead>
+                    <TableHead>{t("leaderboardPage.accuracy")}</TableHead>
+                    <TableHead>{t("hotseat.bestStreak")}</TableHead>
+                    <TableHead className="text-end">{t("leaderboardPage.score")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ranking.map(({ seat: s, rank }) => (
+                    <TableRow key={s.name} className={rank === 1 ? "bg-accent" : undefined}>
+                      <TableCell>{rank}</TableCell>
+                      <TableCell className="font-medium">{s.name}</TableCell>
+                      <TableCell>{s.answers.length ? `${Math.round((s.score.correct / s.answers.length) * 100)}%` : "—"}</TableCell>
+                      <TableCell>{s.score.bestStreak}</TableCell>
+                      <TableCell className="text-end font-semibold">{s.score.total}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex items-center justify-between">
+                <Button variant="secondary" onClick={() => setPhase("setup")}>{t("result.playAgain")}</Button>
+                <Button asChild>
+                  <Link to="/leaderboard">{t("leaderboard.viewAll")}</Link>
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+      )}
+    </main>
+  );
+}
+
+function Scoreboard({ seats, activeIdx }: { seats: Seat[]; activeIdx: number }) {
+  const { t } = useI18n();
+  const active = seats[activeIdx];
+  return (
+    <ol className="rounded-lg border">
+      {rankSeats(seats).map(({ seat, rank }) => (
+        <li
+          key={seat.name}
+          className={`flex items-center justify-between px-4 py-2 ${seat === active ? "bg-accent font-medium" : ""}`}
+        >
+          <span className="flex items-center gap-3">
+            <span className="w-6 text-center text-sm">{rank}</span>
+            {seat.name}
+          </span>
+          <span className="text-sm tabular-nums">{t("result.points", { score: seat.score.total })}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
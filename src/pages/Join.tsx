@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { DisplaySettingsMenu } from "@/components/DisplaySettingsMenu";
+import { OptionImage, QuestionIllustration } from "@/components/game/QuestionIllustration";
+import type { ChoiceQuestion } from "@/data/questions";
+import { toast } from "@/hooks/use-toast";
+import { useAnswerKeys } from "@/hooks/use-answer-keys";
+import { useLiveSocket } from "@/hooks/use-live-socket";
+import { usePageSEO } from "@/hooks/use-page-seo";
+import { useProfiles } from "@/hooks/use-profiles";
+import { useI18n } from "@/i18n/context";
+import type { MessageKey } from "@/i18n";
+import type { LiveQuestion, LiveStanding, PlayerInbox, PlayerMessage } from "@/lib/live";
+import { arrangeOptions, type OptionOrder } from "@/lib/option-order";
+
+type Phase = "form" | "waiting" | "question" | "answered" | "reveal" | "end";
+
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+  noRoom: "live.noRoom",
+  noName: "setup.nameRequired",
+  nameTaken: "live.nameTaken",
+};
+
+export default function Join() {
+  const { t, localize } = useI18n();
+  usePageSEO(t("join.seoTitle"), t("join.seoDescription"));
+
+  const [params] = useSearchParams();
+  const { active } = useProfiles();
+  const [code, setCode] = useState(params.get("code")?.toUpperCase() ?? "");
+  const [name, setName] = useState(active?.name ?? "");
+
+  const [phase, setPhase] = useState<Phase>("form");
+  const [joinedAs, setJoinedAs] = useState("");
+  const [question, setQuestion] = useState<{ index: number; total: number; question: LiveQuestion; order: OptionOrder } | null>(null);
+  // The bank index of the option picked, as sent to the host
+  const [choice, setChoice] = useState<number | null>(null);
+  const [revealed, setRevealed] = useState<ChoiceQuestion | null>(null);
+  const [standings, setStandings] = useState<LiveStanding[]>([]);
+
+  const socket = useLiveSocket<PlayerInbox, { type: "join"; code: string; name: string } | PlayerMessage>((msg) => {
+    switch (msg.type) {
+      case "joined":
+        setJoinedAs(msg.name);
+        setPhase("waiting");
+        break;
+      case "error":
+        toast({ title: t(ERROR_MESSAGES[msg.reason] ?? "live.error"), variant: "destructive" });
+        socket.disconnect();
+        setPhase("form");
+        break;
+      case "question":
+        setQuestion(msg);
+        setChoice(null);
+        setRevealed(null);
+        setPhase("question");
+        break;
+      case "reveal":
+        setRevealed(msg.question);
+        setStandings(msg.standings);
+        setPhase("reveal");
+        break;
+      case "end":
+        setStandings(msg.standings);
+        setPhase("end");
+        break;
+      case "closed":
+        toast({ title: t("live.hostLeft") });
+        setPhase("form");
+        break;
+    }
+  });
+
+  const join = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || !name.trim()) {
+      toast({ title: t("join.missing") });
+      return;
+    }
+    socket.connect({ type: "join", code: code.trim().toUpperCase(), name: name.trim() });
+  };
+
+  const answer = (position: number) => {
+    if (!question || choice !== null) return;
+    const picked = question.order[position];
+    setChoice(picked);
+    socket.send({ type: "answer", index: question.index, choice: picked });
+    setPhase("answered");
+  };
+
+  useAnswerKeys({
+    enabled: phase === "question" && !!question,
+    optionCount: question?.question.options.length ?? 0,
+    onSelect: answer,
+    // The host moves everyone on together
+    onNext: () => {},
+  });
+
+  // Translated in bank order, then arranged the way the host dealt them
+  const shown = question && arrangeOptions(localize({ ...question.question, answerIndex: -1 }), question.order);
+  const answerShown = revealed && localize(revealed);
+  const mine = standings.find(s => s.name === joinedAs);
+
+  return (
+    <main className="container py-8">
+      <header className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">{t("join.title")}</h1>
+          {joinedAs && <p className="text-muted-foreground">{t("join.playingAs", { name: joinedAs, code })}</p>}
+        </div>
+        <div className="flex gap-2">
+          <LanguageSwitcher />
+          <DisplaySettingsMenu />
+          <Button asChild variant="ghost">
+            <Link to="/">{t("game.home")}</Link>
+          </Button>
+        </div>
+      </header>
+
+      {socket.status === "closed" && phase !== "form" && (
+        <p className="mb-4 rounded-lg border border-destructive p-3 text-sm text-destructive">{t("live.disconnected")}</p>
+      )}
+
+      <section className="max-w-xl mx-auto">
+        {phase === "form" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("join.formTitle")}</CardTitle>
+              <CardDescription>{t("join.formHint")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form className="space-y-4" onSubmit={join}>
+                <div className="space-y-2">
+                  <label htmlFor="room-code" className="text-sm">{t("join.code")}</label>
+                  <Input
+                    id="room-code"
+                    className="text-center text-2xl uppercase tracking-widest"
+                    maxLength={4}
+                    autoCapitalize="characters"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.toUpperCase())}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="player-name" className="text-sm">{t("setup.playerName")}</label>
+                  <Input
+                    id="player-name"
+                    placeholder={t("setup.playerNamePlaceholder")}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={socket.status === "connecting"}>{t("join.join")}</Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {phase === "waiting" && (
+          <Card className="text-center">
+            <CardHeader>
+              <CardTitle>{t("join.waitingTitle")}</CardTitle>
+              <CardDescription>{t("join.waitingHint")}</CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+
+        {(phase === "question" || phase === "answered") && question && shown && (
+          <Card>
+            <CardHeader>
+              <CardDescription>{t("play.questionOf", { number: question.index + 1, total: question.total })}</CardDescription>
+              <CardTitle className="text-xl">{shown.text}</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-3">
+              {shown.image && <QuestionIllustration key={shown.image.src} image={shown.image} />}
+              {shown.options.map((opt, i) => (
+                <Button
+                  key={i}
+                  size="lg"
+                  variant={choice !== null && choice === question.order[i] ? "secondary" : "outline"}
+                  className="h-auto justify-start whitespace-normal py-4 text-start"
+                  disabled={choice !== null}
+                  onClick={() => answer(i)}
+                >
+                  <OptionImage src={shown.optionImages?.[i]} />
+                  {opt}
+                </Button>
+              ))}
+              {phase === "answered" && <p className="text-center text-sm text-muted-foreground">{t("join.answered")}</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        {phase === "reveal" && answerShown && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {choice === answerShown.answerIndex ? (
+                  <><Check className="h-6 w-6 text-primary" aria-hidden /> {t("play.correct")}</>
+                ) : (
+                  <><X className="h-6 w-6 text-destructive" aria-hidden /> {choice === null ? t("play.timeUp") : t("play.wrong")}</>
+                )}
+              </CardTitle>
+              <CardDescription>
+                {t("review.correctAnswer")} {answerShown.options[answerShown.answerIndex]}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {answerShown.explanation && <p className="text-muted-foreground">{answerShown.explanation}</p>}
+              {mine && <p className="font-medium">{t("join.standing", { rank: mine.rank, score: mine.score })}</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        {phase === "end" && (
+          <Card className="text-center">
+            <CardHeader>
+              <CardTitle>{t("join.endTitle")}</CardTitle>
+              {mine && <CardDescription>{t("join.standing", { rank: mine.rank, score: mine.score })}</CardDescription>}
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-1 text-start">
+                {standings.slice(0, 5).map(s => (
+                  <li key={s.name} className={`flex justify-between rounded px-2 py-1 ${s.name === joinedAs ? "bg-accent" : ""}`}>
+                    <span>{s.rank}. {s.name}</span>
+                    <span className="tabular-nums">{t("result.points", { score: s.score })}</span>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,269 @@
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { addDays, isToday, subDays } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from "@/components/ui/pagination";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { LeaderboardFilters } from "@/components/leaderboard/LeaderboardFilters";
+import { TeamBoard } from "@/components/leaderboard/TeamBoard";
+import { DailyBoard } from "@/components/leaderboard/DailyBoard";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { DisplaySettingsMenu } from "@/components/DisplaySettingsMenu";
+import { usePageSEO } from "@/hooks/use-page-seo";
+import { useI18n } from "@/i18n/context";
+import { useLeaderboard } from "@/hooks/use-leaderboard";
+import {
+  DEFAULT_FILTER,
+  filterLeaderboard,
+  formatDuration,
+  searchLeaderboard,
+  sortLeaderboard,
+  summarizePlayer,
+  type LeaderboardFilter,
+  type ScoreEntry,
+  type SortKey,
+} from "@/lib/leaderboard";
+import { dayKey } from "@/lib/profiles";
+
+const PAGE_SIZE = 20;
+const NO_ENTRIES: ScoreEntry[] = [];
+
+/** Page numbers to show around the current page, with null marking a gap */
+function pageWindow(page: number, pageCount: number): (number | null)[] {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1].filter(p => p >= 1 && p <= pageCount));
+  const sorted = [...pages].sort((a, b) => a - b);
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? [null, p] : [p]));
+}
+
+export default function Leaderboard() {
+  const { t, locale } = useI18n();
+  usePageSEO(t("leaderboardPage.seoTitle"), t("leaderboardPage.seoDescription"));
+
+  const [params, setParams] = useSearchParams();
+  const requested = params.get("view");
+  const view = requested === "teams" || requested === "daily" ? requested : "players";
+  const { data: all = NO_ENTRIES, isLoading } = useLeaderboard();
+  const [filter, setFilter] = useState<LeaderboardFilter>(DEFAULT_FILTER);
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<{ key: SortKey; direction: "asc" | "desc" }>({ key: "score", direction: "desc" });
+  const [page, setPage] = useState(1);
+  const [player, setPlayer] = useState<string | null>(null);
+  const [dailyDay, setDailyDay] = useState(() => new Date());
+
+  // Ranks follow score within the current filter, whatever the display order
+  const ranked = useMemo(() => filterLeaderboard(all, filter), [all, filter]);
+  const rows = useMemo(
+    () => sortLeaderboard(searchLeaderboard(ranked, query), sort.key, sort.direction),
+    [ranked, query, sort]
+  );
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const visible = rows.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+  const summary = useMemo(() => (player ? summarizePlayer(all, player) : null), [all, player]);
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleString(locale, { dateStyle: "medium", timeStyle: "short" });
+  const toggleSort = (key: SortKey) => {
+    setSort(s => ({ key, direction: s.key === key && s.direction === "desc" ? "asc" : "desc" }));
+    setPage(1);
+  };
+  const sortMark = (key: SortKey) => (sort.key === key ? (sort.direction === "desc" ? " ↓" : " ↑") : "");
+  const goTo = (p: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    setPage(Math.min(Math.max(1, p), pageCount));
+  };
+
+  return (
+    <main className="container py-8">
+      <header className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">{t("leaderboardPage.title")}</h1>
+          <p className="text-muted-foreground">{t("leaderboardPage.subtitle", { count: all.length })}</p>
+        </div>
+        <div className="flex gap-2">
+          <LanguageSwitcher />
+          <DisplaySettingsMenu />
+          <Button asChild variant="ghost">
+            <Link to="/game">{t("leaderboardPage.play")}</Link>
+          </Button>
+          <Button asChild variant="ghost">
+            <Link to="/">{t("game.home")}</Link>
+          </Button>
+        </div>
+      </header>
+
+      <section className="mb-4 flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        {view === "daily" ? (
+          <div className="flex items-center gap-2">
+            <Button size="icon" variant="outline" onClick={() => setDailyDay(d => subDays(d, 1))} aria-label={t("daily.previousDay")}>
+              <ChevronLeft className="h-4 w-4 rtl:-scale-x-100" aria-hidden />
+            </Button>
+            <span className="min-w-40 text-center font-medium">
+              {isToday(dailyDay) ? t("daily.today") : dailyDay.toLocaleDateString(locale, { dateStyle: "medium" })}
+            </span>
+            <Button size="icon" variant="outline" disabled={isToday(dailyDay)} onClick={() => setDailyDay(d => addDays(d, 1))} aria-label={t("daily.nextDay")}>
+              <ChevronRight className="h-4 w-4 rtl:-scale-x-100" aria-hidden />
+            </Button>
+          </div>
+        ) : (
+          <LeaderboardFilters filter={filter} onChange={(f) => { setFilter(f); setPage(1); }} />
+        )}
+        <Input
+          className="md:max-w-xs"
+          placeholder={view === "teams" ? t("teams.search") : t("leaderboardPage.search")}
+          aria-label={view === "teams" ? t("teams.search") : t("leaderboardPage.search")}
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setPage(1); }}
+        />
+      </section>
+
+      <Tabs value={view} onValueChange={(v) => setParams(v === "players" ? {} : { view: v }, { replace: true })}>
+        <TabsList className="mb-4">
+          <TabsTrigger value="players">{t("teams.playersTab")}</TabsTrigger>
+          <TabsTrigger value="teams">{t("teams.teamsTab")}</TabsTrigger>
+          <TabsTrigger value="daily">{t("daily.tab")}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="daily">
+          <DailyBoard day={dayKey(dailyDay)} query={query} />
+        </TabsContent>
+
+        <TabsContent value="teams">
+          <TeamBoard entries={ranked} query={query} isLoading={isLoading} highlightTeam={params.get("team")} />
+        </TabsContent>
+
+        <TabsContent value="players">
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>{t("leaderboardPage.player")}</TableHead>
+                  <TableHead>{t("setup.topic")}</TableHead>
+                  <TableHead>{t("setup.difficulty")}</TableHead>
+                  <TableHead>
+                    <button type="button" onClick={() => toggleSort("accuracy")}>{t("leaderboardPage.accuracy")}{sortMark("accuracy")}</button>
+                  </TableHead>
+                  <TableHead>{t("leaderboardPage.duration")}</TableHead>
+                  <TableHead>
+                    <button type="button" onClick={() => toggleSort("date")}>{t("leaderboardPage.date")}{sortMark("date")}</button>
+                  </TableHead>
+                  <TableHead className="text-end">
+                    <button type="button" onClick={() => toggleSort("score")}>{t("leaderboardPage.score")}{sortMark("score")}</button>
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-muted-foreground">
+                      {isLoading ? t("leaderboard.loading") : t("leaderboard.empty")}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {visible.map(e => (
+                  <TableRow key={e.name + e.date}>
+                    <TableCell>{ranked.indexOf(e) + 1}</TableCell>
+                    <TableCell>
+                      <button type="button" className="font-medium underline-offset-4 hover:underline" onClick={() => setPlayer(e.name)}>
+                        {e.name}
+                      </button>
+                      {e.team && <span className="ms-2 text-xs text-muted-foreground">{e.team}</span>}
+                    </TableCell>
+                    <TableCell>{t(`topic.${e.topic}`)}</TableCell>
+                    <TableCell>{e.difficulty ? t(`difficulty.${e.difficulty}`) : "—"}</TableCell>
+                    <TableCell>{e.accuracy !== null ? `${Math.round(e.accuracy * 100)}%` : "—"}</TableCell>
+                    <TableCell className="tabular-nums">{e.durationMs !== null ? formatDuration(e.durationMs) : "—"}</TableCell>
+                    <TableCell>{formatDate(e.date)}</TableCell>
+                    <TableCell className="text-end font-semibold">{e.score}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {pageCount > 1 && (
+            <Pagination className="mt-4">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationLink href="#" size="default" onClick={goTo(currentPage - 1)}>{t("leaderboardPage.previous")}</PaginationLink>
+                </PaginationItem>
+                {pageWindow(currentPage, pageCount).map((p, i) => (
+                  <PaginationItem key={p ?? `gap-${i}`}>
+                    {p === null ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink href="#" isActive={p === currentPage} onClick={goTo(p)}>{p}</PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationLink href="#" size="default" onClick={goTo(currentPage + 1)}>{t("leaderboardPage.next")}</PaginationLink>
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={player !== null} onOpenChange={(open) => !open && setPlayer(null)}>
+        <DialogContent className="max-w-2xl">
+          {summary && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{summary.name}</DialogTitle>
+                <DialogDescription>
+                  {t("leaderboardPage.playerSummary", {
+                    games: summary.games.length,
+                    best: summary.bestScore,
+                    accuracy: summary.averageAccuracy !== null ? Math.round(summary.averageAccuracy * 100) : "—",
+                  })}
+                </DialogDescription>
+              </DialogHeader>
+              <PlayerGames games={summary.games} formatDate={formatDate} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </main>
+  );
+}
+
+function PlayerGames({ games, formatDate }: { games: ScoreEntry[]; formatDate: (iso: string) => string }) {
+  const { t } = useI18n();
+  return (
+    <div className="max-h-96 overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t("leaderboardPage.date")}</TableHead>
+            <TableHead>{t("setup.topic")}</TableHead>
+            <TableHead>{t("setup.difficulty")}</TableHead>
+            <TableHead>{t("leaderboardPage.accuracy")}</TableHead>
+            <TableHead className="text-end">{t("leaderboardPage.score")}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {games.map(e => (
+            <TableRow key={e.date}>
+              <TableCell>{formatDate(e.date)}</TableCell>
+              <TableCell>{t(`topic.${e.topic}`)}</TableCell>
+              <TableCell>{e.difficulty ? t(`difficulty.${e.difficulty}`) : "—"}</TableCell>
+              <TableCell>{e.accuracy !== null ? `${Math.round(e.accuracy * 100)}%` : "—"}</TableCell>
+              <TableCell className="text-end">{e.score}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { eachDayOfInterval, parse, subDays, subMonths } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { DisplaySettingsMenu } from "@/components/DisplaySettingsMenu";
+import { BadgeGallery } from "@/components/achievements/BadgeGallery";
+import { CATEGORIES } from "@/data/questions";
+import { usePageSEO } from "@/hooks/use-page-seo";
+import { useProfiles } from "@/hooks/use-profiles";
+import { useI18n } from "@/i18n/context";
+import { ACHIEVEMENTS } from "@/lib/achievements";
+import { BOARD_DIFFICULTIES } from "@/lib/leaderboard";
+import { masteredCount, readKnowledge } from "@/lib/practice";
+import { dailyStreak, dayKey, overallAccuracy, type PlayerProfile } from "@/lib/profiles";
+
+const ACTIVITY_DAYS = 14;
+
+export default function Profile() {
+  const { t } = useI18n();
+  usePageSEO(t("profile.seoTitle"), t("profile.seoDescription"));
+
+  const { profiles, active, select, create, remove } = useProfiles();
+  const [newName, setNewName] = useState("");
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    create(newName);
+    setNewName("");
+  };
+
+  return (
+    <main className="container py-8">
+      <header className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">{t("profile.title")}</h1>
+          <p className="text-muted-foreground">{t("profile.subtitle")}</p>
+        </div>
+        <div className="flex gap-2">
+          <LanguageSwitcher />
+          <DisplaySettingsMenu />
+          <Button asChild variant="ghost">
+            <Link to="/game">{t("leaderboardPage.play")}</Link>
+          </Button>
+          <Button asChild variant="ghost">
+            <Link to="/">{t("game.home")}</Link>
+          </Button>
+        </div>
+      </header>
+
+      <section className="mb-6 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-2">
+          {profiles.length > 0 && (
+            <Select value={active?.id ?? ""} onValueChange={select}>
+              <SelectTrigger className="w-56" aria-label={t("profile.choose")}>
+                <SelectValue placeholder={t("profile.choose")} />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {active && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline">{t("profile.delete")}</Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{t("profile.deleteTitle", { name: active.name })}</AlertDialogTitle>
+                  <AlertDialogDescription>{t("profile.deleteDescription")}</AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>{t("profile.cancel")}</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => remove(active.id)}>{t("profile.delete")}</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+        <form className="flex gap-2" onSubmit={handleCreate}>
+          <Input
+            className="md:w-56"
+            placeholder={t("setup.playerNamePlaceholder")}
+            aria-label={t("setup.playerName")}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Button type="submit" variant="secondary">{t("profile.create")}</Button>
+        </form>
+      </section>
+
+      {active ? (
+        <ProfileStats profile={active} />
+      ) : (
+        <p className="text-muted-foreground">{profiles.length ? t("profile.noneSelected") : t("profile.empty")}</p>
+      )}
+    </main>
+  );
+}
+
+function ProfileStats({ profile }: { profile: PlayerProfile }) {
+  const { t, locale } = useI18n();
+  const accuracy = overallAccuracy(profile);
+  const mastered = useMemo(() => masteredCount(readKnowledge(profile.id)), [profile]);
+
+  const topicData = CATEGORIES.map(c => {
+    const stats = profile.categories[c];
+    return {
+      topic: t(`topic.${c}`),
+      accuracy: stats.answered ? Math.round((stats.correct / stats.answered) * 100) : 0,
+    };
+  });
+  const today = new Date();
+  const activityData = eachDayOfInterval({ start: subDays(today, ACTIVITY_DAYS - 1), end: today }).map(day => ({
+    day: day.toLocaleDateString(locale, { day: "numeric", month: "short" }),
+    games: profile.playDays[dayKey(day)] ?? 0,
+  }));
+
+  const topicConfig = { accuracy: { label: t("profile.accuracy"), color: "hsl(var(--primary))" } } satisfies ChartConfig;
+  const activityConfig = { games: { label: t("profile.games"), color: "hsl(var(--primary))" } } satisfies ChartConfig;
+
+  const tiles = [
+    { label: t("profile.gamesPlayed"), value: profile.gamesPlayed },
+    { label: t("profile.accuracy"), value: accuracy !== null ? `${Math.round(accuracy * 100)}%` : "—" },
+    { label: t("profile.mastered"), value: mastered },
+    { label: t("profile.daysPlayed"), value: Object.keys(profile.playDays).length },
+  ];
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <div className="grid grid-cols-2 gap-4 md:col-span-2 md:grid-cols-4">
+        {tiles.map(tile => (
+          <Card key={tile.label}>
+            <CardHeader className="pb-2">
+              <CardDescription>{tile.label}</CardDescription>
+              <CardTitle className="text-3xl tabular-nums">{tile.value}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("profile.byTopic")}</CardTitle>
+          <CardDescription>{t("profile.byTopicHint")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={topicConfig} className="h-64 w-full">
+            <BarChart data={topicData} accessibilityLayer>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="topic" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="accuracy" fill="var(--color-accuracy)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("profile.activity")}</CardTitle>
+          <CardDescription>{t("profile.activityHint", { days: ACTIVITY_DAYS })}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={activityConfig} className="h-64 w-full">
+            <BarChart data={activityData} accessibilityLayer>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="games" fill="var(--color-games)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <DailyCalendar profile={profile} />
+
+      <Card className="md:col-span-2">
+        <CardHeader>
+          <CardTitle>{t("profile.bestScores")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+            {BOARD_DIFFICULTIES.map(d => (
+              <div key={d}>
+                <dt className="text-muted-foreground">{t(`difficulty.${d}`)}</dt>
+                <dd className="text-2xl font-semibold tabular-nums">{profile.bestScores[d] ?? "—"}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card className="md:col-span-2">
+        <CardHeader>
+          <CardTitle>{t("achievements.title")}</CardTitle>
+          <CardDescription>
+            {t("achievements.progress", { count: Object.keys(profile.achievements).length, total: ACHIEVEMENTS.length })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BadgeGallery profile={profile} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function DailyCalendar({ profile }: { profile: PlayerProfile }) {
+  const { t, locale } = useI18n();
+  const today = new Date();
+  const days = useMemo(() => Object.keys(profile.dailyScores).map(key => parse(key, "yyyy-MM-dd", new Date())), [profile.dailyScores]);
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>{t("daily.calendar")}</CardTitle>
+        <CardDescription>
+          {t("daily.calendarHint")} • {t("daily.streak", { count: dailyStreak(profile, today) })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex justify-center">
+        <Calendar
+          numberOfMonths={2}
+          defaultMonth={subMonths(today, 1)}
+          toDate={today}
+          modifiers={{ played: days }}
+          modifiersClassNames={{ played: "bg-primary text-primary-foreground rounded-md" }}
+          formatters={{
+            formatCaption: (month) => month.toLocaleDateString(locale, { month: "long", year: "numeric" }),
+            formatWeekdayName: (day) => day.toLocaleDateString(locale, { weekday: "narrow" }),
+          }}
+        />
+      </CardContent>
+    </Card>
+  );
+}
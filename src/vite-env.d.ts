@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+/// <reference types="vite-plugin-pwa/react" />
+
+interface ImportMetaEnv {
+  /** Base URL of a shared leaderboard backend; scores stay on the device when unset */
+  readonly VITE_LEADERBOARD_URL?: string;
+  /** WebSocket URL of server/live-relay.mjs; defaults to port 8788 on the host serving the app */
+  readonly VITE_LIVE_URL?: string;
+}
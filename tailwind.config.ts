@@ -100,6 +100,11 @@ export default {
 				'slide-out-right': {
 					'0%': { transform: 'translateX(0)' },
 					'100%': { transform: 'translateX(100%)' }
+				},
+				'badge-pop': {
+					'0%': { transform: 'scale(0.4) rotate(-12deg)', opacity: '0' },
+					'60%': { transform: 'scale(1.1) rotate(4deg)', opacity: '1' },
+					'100%': { transform: 'scale(1) rotate(0)', opacity: '1' }
 				}
 			},
 			animation: {
@@ -111,6 +116,7 @@ export default {
 				'scale-out': 'scale-out 0.2s ease-out',
 				'slide-in-right': 'slide-in-right 0.3s ease-out',
 				'slide-out-right': 'slide-out-right 0.3s ease-out',
+				'badge-pop': 'badge-pop 0.6s ease-out both',
 				enter: 'fade-in 0.3s ease-out, scale-in 0.2s ease-out',
 				exit: 'fade-out 0.3s ease-out, scale-out 0.2s ease-out'
 			}
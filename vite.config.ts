@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { VitePWA } from "vite-plugin-pwa";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -13,6 +14,44 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    VitePWA({
+      // Updates wait for the player to accept them so a game in progress isn't reloaded
+      registerType: "prompt",
+      includeAssets: ["favicon.ico", "icon.svg"],
+      manifest: {
+        name: "Health Quest",
+        short_name: "Health Quest",
+        description: "Trivia on HIV self-testing, PrEP and reproductive health that works offline.",
+        theme_color: "#0f172a",
+        background_color: "#ffffff",
+        display: "standalone",
+        start_url: "/",
+        icons: [
+          { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+          { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "maskable" },
+        ],
+      },
+      workbox: {
+        // The question banks in public/banks are JSON, so they are precached with the app itself,
+        // as are the illustrations bundled in public/media
+        globPatterns: ["**/*.{js,css,html,ico,svg,png,jpg,jpeg,webp,json,woff2}"],
+        // Images in imported banks can live anywhere; keep each one after its first load
+        runtimeCaching: [
+          {
+            urlPattern: ({ request }) => request.destination === "image",
+            handler: "CacheFirst",
+            options: {
+              cacheName: "question-images",
+              expiration: { maxEntries: 200, maxAgeSeconds: 60 * 60 * 24 * 60 },
+              // Cross-origin images come back opaque (status 0) without CORS headers
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+        ],
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+        navigateFallback: "/index.html",
+      },
+    }),
   ].filter(Boolean),
   resolve: {
     alias: {